@@ -0,0 +1,45 @@
+import { None, Option, Some } from "../mod.ts";
+import * as expensive from "../src/expensiveOption.ts";
+
+const values = Array.from({ length: 1000 }, (_, i) => i % 3 ? i : null);
+
+Deno.bench("nullable", { group: "fromNullable", baseline: true }, () => {
+  let sum = 0;
+  for (const value of values) sum += value ?? 0;
+});
+
+Deno.bench("Option", { group: "fromNullable" }, () => {
+  let sum = 0;
+  for (const value of values) sum += Option.fromNullable(value).unwrapOr(0);
+});
+
+Deno.bench("expensiveOption", { group: "fromNullable" }, () => {
+  let sum = 0;
+  for (const value of values) {
+    const option = value == null
+      ? expensive.None<number>()
+      : expensive.Some(value);
+    sum += option.unwrapOr(0);
+  }
+});
+
+Deno.bench("Option", { group: "None", baseline: true }, () => {
+  for (let i = 0; i < 1000; i++) None<number>().isNone();
+});
+
+Deno.bench("expensiveOption", { group: "None" }, () => {
+  for (let i = 0; i < 1000; i++) expensive.None<number>().isNone();
+});
+
+Deno.bench("Option", { group: "map chain", baseline: true }, () => {
+  for (let i = 0; i < 1000; i++) {
+    Some(i).map((x) => x * 2).filter((x) => x % 3 == 0).mapOr(0, (x) => x + 1);
+  }
+});
+
+Deno.bench("expensiveOption", { group: "map chain" }, () => {
+  for (let i = 0; i < 1000; i++) {
+    expensive.Some(i).map((x) => x * 2).filter((x) => x % 3 == 0)
+      .mapOr(0, (x) => x + 1);
+  }
+});
@@ -0,0 +1,42 @@
+import { Err, Ok, Result } from "../mod.ts";
+
+function parse(input: string): Result<number, string> {
+  const value = Number(input);
+  return Number.isNaN(value) ? Err(`${input} is not a number`) : Ok(value);
+}
+
+function parseOrThrow(input: string): number {
+  const value = Number(input);
+  if (Number.isNaN(value)) throw new Error(`${input} is not a number`);
+  return value;
+}
+
+const inputs = Array.from({ length: 1000 }, (_, i) => i % 4 ? `${i}` : "nan");
+
+Deno.bench("try/catch", { group: "error path", baseline: true }, () => {
+  let sum = 0;
+  for (const input of inputs) {
+    try {
+      sum += parseOrThrow(input) * 2;
+    } catch {
+      sum -= 1;
+    }
+  }
+});
+
+Deno.bench("Result", { group: "error path" }, () => {
+  let sum = 0;
+  for (const input of inputs) {
+    sum += parse(input).map((x) => x * 2).unwrapOr(-1);
+  }
+});
+
+Deno.bench("Result", { group: "combinators" }, () => {
+  for (const input of inputs) {
+    parse(input)
+      .map((x) => x + 1)
+      .andThen((x) => x % 2 ? Ok(x) : Err("even"))
+      .mapErr((e) => e.length)
+      .or(Ok(0));
+  }
+});
@@ -0,0 +1,22 @@
+/** The interface based `Option` variant.
+ *
+ * `Option` is an interface here, implemented by a closure per value, instead
+ * of the concrete class of `mod.ts`. Both implementations behave the same,
+ * which the conformance tests verify, but their types are unrelated: pick
+ * one per codebase.
+ *
+ * ```ts
+ * import { None, Option, Some } from "./expensive_option.ts";
+ *
+ * function double(x: Option<number>): Option<number> {
+ *    return x.map((v) => v * 2);
+ * }
+ *
+ * console.log(double(Some(2)).unwrap()); // 4
+ * console.log(double(None()).isNone()); // true
+ * ```
+ *
+ * @module
+ */
+export { None, Some } from "./src/expensiveOption.ts";
+export type { Option } from "./src/expensiveOption.ts";
@@ -1,2 +1,55 @@
+export { AsyncResult } from "./src/asyncResult.ts";
+export {
+  compare,
+  compareBy,
+  Eq,
+  equals,
+  Ord,
+  Ordering,
+  sortBy,
+} from "./src/cmp.ts";
+export type { Comparator } from "./src/cmp.ts";
+export { ContextError, report } from "./src/context.ts";
+export { Debug, debug } from "./src/debug.ts";
+export type { DebugOptions } from "./src/debug.ts";
+export {
+  array,
+  boolean,
+  DecodeError,
+  Decoder,
+  literal,
+  number,
+  object,
+  optional,
+  refine,
+  string,
+  union,
+} from "./src/decoder.ts";
+export type { DecodeIssue, DecodePath } from "./src/decoder.ts";
+export { Default, defaultOf, defaultWith } from "./src/default.ts";
+export type { DefaultProvider } from "./src/default.ts";
+export { defineErrors, EnumError } from "./src/errors.ts";
+export type { ErrorEnum, ErrorUnion } from "./src/errors.ts";
+export { Iter, Peekable } from "./src/iter.ts";
+export { jsonReplacer, jsonReviver } from "./src/json.ts";
+export type { JsonOptions } from "./src/json.ts";
+export { Pattern } from "./src/match.ts";
+export type { MatchArm } from "./src/match.ts";
+export { panic, PanicError, setPanicHook, takePanicHook } from "./src/panic.ts";
+export type { PanicHook, PanicLocation } from "./src/panic.ts";
 export { None, Option, Some } from "./src/option.ts";
-export { Err, Ok, Result, resultify } from "./src/result.ts";
+export type { OptionJSON } from "./src/option.ts";
+export {
+  catchUnwind,
+  Err,
+  Ok,
+  Result,
+  resultify,
+  resultifyAsync,
+} from "./src/result.ts";
+export type {
+  AsyncResultified,
+  Resultified,
+  ResultJSON,
+} from "./src/result.ts";
+export { Invalid, Valid, Validation } from "./src/validation.ts";
@@ -0,0 +1,6 @@
+/** `true` if `A` and `B` are the exact same type, `false` otherwise. */
+export type IsExact<A, B> = (<X>() => X extends A ? 1 : 2) extends
+  (<X>() => X extends B ? 1 : 2) ? true : false;
+
+/** Fails to type-check unless `T` is `true`, to be used with `IsExact`. */
+export function assertType<T extends true>(_: T): void {}
@@ -0,0 +1,472 @@
+import { Option } from "./option.ts";
+import { Err, ErrType, Ok, Result } from "./result.ts";
+
+/** Asynchronous error handling with the `AsyncResult` type.
+ *
+ * `AsyncResult<T, E>` is a `Result<T, E>` that is not known yet, it wraps
+ * a `Promise<Result<T, E>>` and exposes the same combinators as `Result`,
+ * so fallible asynchronous steps can be chained without awaiting each one.
+ *
+ * It is awaitable (thenable) and resolves to the underlying `Result<T, E>`.
+ * Callbacks given to its combinators can return plain values, `Result`s,
+ * or Promises (or `AsyncResult`s) of either.
+ *
+ * The Promise wrapped by an `AsyncResult` should never reject, errors are
+ * meant to travel in the `Err` variant. If a callback throws (or panics),
+ * the rejection is propagated as is.
+ *
+ * ```ts
+ * async function fetchUser(id: number): Promise<Result<User, string>> {
+ *    // ...
+ * }
+ *
+ * let name = await AsyncResult.from(fetchUser(1))
+ *    .map((user) => user.name)
+ *    .andThen(async (name) => name ? Ok(name) : Err("anonymous user"))
+ *    .unwrapOr("unknown");
+ * ```
+ */
+export class AsyncResult<T, E> implements PromiseLike<Result<T, E>> {
+  protected constructor(private promise: Promise<Result<T, E>>) {}
+
+  /** Contains the success value */
+  static Ok<T, E = never>(value: T): AsyncResult<T, E> {
+    return AsyncResult.from(Ok(value));
+  }
+
+  /** Contains the error value */
+  static Err<T = never, E = never>(err: E): AsyncResult<T, E> {
+    return AsyncResult.from(Err(err));
+  }
+
+  /** Wraps a `Result`, or a Promise of a `Result`, in an `AsyncResult`.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let x = AsyncResult.from(Ok(2));
+   * console.log((await x).unwrap()); // 2
+   *
+   * let y = AsyncResult.from(Promise.resolve(Err("late error")));
+   * console.log(await y.unwrapErr()); // late error
+   *
+   * let z = AsyncResult.from(None().okOr("nothing here"));
+   * console.log(await z.isErr()); // true
+   * ```
+   */
+  static from<T, E>(
+    result: Result<T, E> | PromiseLike<Result<T, E>>,
+  ): AsyncResult<T, E> {
+    return new AsyncResult(Promise.resolve(result));
+  }
+
+  /** Async counterpart of `Result.gen`, runs an async generator function in
+   * which `yield* result.try()` unwraps an `Ok` or short-circuits on an
+   * `Err`, `result` being a `Result` or an `AsyncResult`.
+   *
+   * # Examples
+   *
+   * ```ts
+   * async function fetchUser(id: number): Promise<Result<User, string>> {
+   *    // ...
+   * }
+   *
+   * // AsyncResult<string, string>
+   * let names = AsyncResult.gen(async function* () {
+   *    const alice = yield* AsyncResult.from(fetchUser(1)).try();
+   *    const bob = yield* AsyncResult.from(fetchUser(2)).try();
+   *    return `${alice.name} and ${bob.name}`;
+   * });
+   * ```
+   */
+  static gen<Y extends Result<never, unknown>, T>(
+    body: () => AsyncGenerator<Y, T, unknown>,
+  ): AsyncResult<T, ErrType<Y>> {
+    return AsyncResult.from((async () => {
+      const generator = body();
+      const next = await generator.next();
+      if (next.done) return Ok<T, ErrType<Y>>(next.value);
+      await generator.return(undefined as unknown as T);
+      return Err<T, ErrType<Y>>(next.value.unwrapErr() as ErrType<Y>);
+    })());
+  }
+
+  then<R1 = Result<T, E>, R2 = never>(
+    onfulfilled?: ((value: Result<T, E>) => R1 | PromiseLike<R1>) | null,
+    onrejected?: ((reason: unknown) => R2 | PromiseLike<R2>) | null,
+  ): Promise<R1 | R2> {
+    return this.promise.then(onfulfilled, onrejected);
+  }
+
+  /** Resolves to `true` if the result is `Ok`.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let x: AsyncResult<number, string> = AsyncResult.Ok(-3);
+   * console.log(await x.isOk()); // true
+   *
+   * let y: AsyncResult<number, string> = AsyncResult.Err("Some error message");
+   * console.log(await y.isOk()); // false
+   * ```
+   */
+  async isOk(this: AsyncResult<T, E>): Promise<boolean> {
+    return (await this).isOk();
+  }
+
+  /** Resolves to `true` if the result is `Err`.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let x: AsyncResult<number, string> = AsyncResult.Ok(-3);
+   * console.log(await x.isErr()); // false
+   *
+   * let y: AsyncResult<number, string> = AsyncResult.Err("Some error message");
+   * console.log(await y.isErr()); // true
+   * ```
+   */
+  async isErr(this: AsyncResult<T, E>): Promise<boolean> {
+    return (await this).isErr();
+  }
+
+  /** Resolves to `true` if the result is an `Ok` value containing the given
+   * value, see `Result.contains`.
+   */
+  async contains<U>(this: AsyncResult<T, E>, x: T | U): Promise<boolean> {
+    return (await this).contains(x);
+  }
+
+  /** Resolves to `true` if the result is an `Err` value containing the given
+   * value, see `Result.containsErr`.
+   */
+  async containsErr<F>(this: AsyncResult<T, E>, x: E | F): Promise<boolean> {
+    return (await this).containsErr(x);
+  }
+
+  /** Converts from `AsyncResult<T, E>` to `Promise<Option<T>>`,
+   * discarding the error, if any.
+   */
+  async ok(this: AsyncResult<T, E>): Promise<Option<T>> {
+    return (await this).ok();
+  }
+
+  /** Converts from `AsyncResult<T, E>` to `Promise<Option<E>>`,
+   * discarding the success value, if any.
+   */
+  async err(this: AsyncResult<T, E>): Promise<Option<E>> {
+    return (await this).err();
+  }
+
+  /** Maps an `AsyncResult<T, E>` to `AsyncResult<U, E>` by applying a
+   * function, that may be async, to a contained `Ok` value, leaving an `Err`
+   * value untouched.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let x: AsyncResult<number, string> = AsyncResult.Ok(2);
+   * console.log(await x.map((v) => v * 2).unwrap()); // 4
+   * console.log(await x.map(async (v) => v * 3).unwrap()); // 6
+   *
+   * let y: AsyncResult<number, string> = AsyncResult.Err("error");
+   * console.log(await y.map((v) => v * 2).unwrapErr()); // error
+   * ```
+   */
+  map<U>(
+    this: AsyncResult<T, E>,
+    op: (arg: T) => U | PromiseLike<U>,
+  ): AsyncResult<U, E> {
+    return AsyncResult.from(this.promise.then(async (result) => {
+      if (result.isErr()) return Err(result.unwrapErr());
+      return Ok(await op(result.unwrap()));
+    }));
+  }
+
+  /** Resolves to the provided default (if `Err`), or applies a function,
+   * that may be async, to the contained value (if `Ok`).
+   *
+   * # Examples
+   *
+   * ```ts
+   * let x: AsyncResult<string, string> = AsyncResult.Ok("foo");
+   * console.log(await x.mapOr(42, (v) => v.length)); // 3
+   *
+   * let y: AsyncResult<string, string> = AsyncResult.Err("bar");
+   * console.log(await y.mapOr(42, (v) => v.length)); // 42
+   * ```
+   */
+  async mapOr<U>(
+    this: AsyncResult<T, E>,
+    defaultValue: U,
+    f: (arg: T) => U | PromiseLike<U>,
+  ): Promise<U> {
+    const result = await this;
+    if (result.isErr()) return defaultValue;
+    return f(result.unwrap());
+  }
+
+  /** Maps an `AsyncResult<T, E>` to `Promise<U>` by applying a fallback
+   * function to a contained `Err` value, or a default function to a
+   * contained `Ok` value, both may be async.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let k = 21;
+   *
+   * let x: AsyncResult<string, string> = AsyncResult.Ok("foo");
+   * console.log(await x.mapOrElse((e) => k * 2, (v) => v.length)); // 3
+   *
+   * let y: AsyncResult<string, string> = AsyncResult.Err("bar");
+   * console.log(await y.mapOrElse((e) => k * 2, (v) => v.length)); // 42
+   * ```
+   */
+  async mapOrElse<U>(
+    this: AsyncResult<T, E>,
+    defaultValue: (arg: E) => U | PromiseLike<U>,
+    f: (arg: T) => U | PromiseLike<U>,
+  ): Promise<U> {
+    const result = await this;
+    if (result.isErr()) return defaultValue(result.unwrapErr());
+    return f(result.unwrap());
+  }
+
+  /** Maps an `AsyncResult<T, E>` to `AsyncResult<T, F>` by applying a
+   * function, that may be async, to a contained `Err` value, leaving an `Ok`
+   * value untouched.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let x: AsyncResult<number, number> = AsyncResult.Err(13);
+   * console.log(await x.mapErr((code) => `error code: ${code}`).unwrapErr()); // error code: 13
+   * ```
+   */
+  mapErr<F>(
+    this: AsyncResult<T, E>,
+    op: (arg: E) => F | PromiseLike<F>,
+  ): AsyncResult<T, F> {
+    return AsyncResult.from(this.promise.then(async (result) => {
+      if (result.isOk()) return Ok(result.unwrap());
+      return Err(await op(result.unwrapErr()));
+    }));
+  }
+
+  /** Returns `res` if the result is `Ok`, otherwise returns the `Err` value
+   * of `self`.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let x: AsyncResult<number, string> = AsyncResult.Ok(2);
+   * console.log(await x.and(Err("late error")).unwrapErr()); // late error
+   *
+   * let y: AsyncResult<number, string> = AsyncResult.Err("early error");
+   * console.log(await y.and(Ok("foo")).unwrapErr()); // early error
+   * ```
+   */
+  and<U>(
+    this: AsyncResult<T, E>,
+    res: Result<U, E> | PromiseLike<Result<U, E>>,
+  ): AsyncResult<U, E> {
+    return this.andThen(() => res);
+  }
+
+  /** Calls `op` if the result is `Ok`, otherwise returns the `Err` value of
+   * `self`.
+   *
+   * `op` can return a `Result`, a Promise of a `Result` or another
+   * `AsyncResult`, this is how fallible asynchronous steps are chained.
+   *
+   * # Examples
+   *
+   * ```ts
+   * function sq(x: number): Result<number, number> {
+   *    return Ok(x * x);
+   * }
+   * async function err(x: number): Promise<Result<number, number>> {
+   *    return Err(x);
+   * }
+   *
+   * console.log(await AsyncResult.Ok(2).andThen(sq).andThen(sq).unwrap()); // 16
+   * console.log(await AsyncResult.Ok(2).andThen(sq).andThen(err).unwrapErr()); // 4
+   * console.log(await AsyncResult.Ok(2).andThen(err).andThen(sq).unwrapErr()); // 2
+   * ```
+   */
+  andThen<U, F = E>(
+    this: AsyncResult<T, E>,
+    op: (arg: T) => Result<U, F> | PromiseLike<Result<U, F>>,
+  ): AsyncResult<U, E | F> {
+    return AsyncResult.from(this.promise.then((result) => {
+      if (result.isErr()) return Err<U, E | F>(result.unwrapErr());
+      return op(result.unwrap());
+    }));
+  }
+
+  /** Returns `res` if the result is `Err`, otherwise returns the `Ok` value
+   * of `self`.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let x: AsyncResult<number, string> = AsyncResult.Err("early error");
+   * console.log(await x.or(Ok(2)).unwrap()); // 2
+   *
+   * let y: AsyncResult<number, string> = AsyncResult.Ok(2);
+   * console.log(await y.or(Ok(100)).unwrap()); // 2
+   * ```
+   */
+  or<F>(
+    this: AsyncResult<T, E>,
+    res: Result<T, F> | PromiseLike<Result<T, F>>,
+  ): AsyncResult<T, F> {
+    return this.orElse(() => res);
+  }
+
+  /** Calls `op` if the result is `Err`, otherwise returns the `Ok` value of
+   * `self`.
+   *
+   * `op` can return a `Result`, a Promise of a `Result` or another
+   * `AsyncResult`.
+   *
+   * # Examples
+   *
+   * ```ts
+   * async function retry(attempt: number): Promise<Result<number, number>> {
+   *    return attempt < 3 ? Err(attempt + 1) : Ok(attempt);
+   * }
+   *
+   * console.log(await AsyncResult.Err(1).orElse(retry).orElse(retry).unwrapErr()); // 3
+   * console.log(await AsyncResult.Err(2).orElse(retry).orElse(retry).unwrap()); // 3
+   * ```
+   */
+  orElse<F, U = T>(
+    this: AsyncResult<T, E>,
+    op: (arg: E) => Result<U, F> | PromiseLike<Result<U, F>>,
+  ): AsyncResult<T | U, F> {
+    return AsyncResult.from(this.promise.then((result) => {
+      if (result.isOk()) return Ok<T | U, F>(result.unwrap());
+      return op(result.unwrapErr());
+    }));
+  }
+
+  /** Resolves to the contained `Ok` value or a provided default.
+   *
+   * # Examples
+   *
+   * ```ts
+   * console.log(await AsyncResult.Ok(9).unwrapOr(2)); // 9
+   * console.log(await AsyncResult.Err("error").unwrapOr(2)); // 2
+   * ```
+   */
+  async unwrapOr(this: AsyncResult<T, E>, defaultValue: T): Promise<T> {
+    return (await this).unwrapOr(defaultValue);
+  }
+
+  /** Resolves to the contained `Ok` value or computes it from a closure,
+   * that may be async.
+   *
+   * # Examples
+   *
+   * ```ts
+   * async function count(x: string): Promise<number> { return x.length; }
+   *
+   * console.log(await AsyncResult.Ok(2).unwrapOrElse(count)); // 2
+   * console.log(await AsyncResult.Err("foo").unwrapOrElse(count)); // 3
+   * ```
+   */
+  async unwrapOrElse(
+    this: AsyncResult<T, E>,
+    op: (arg: E) => T | PromiseLike<T>,
+  ): Promise<T> {
+    const result = await this;
+    if (result.isErr()) return op(result.unwrapErr());
+    return result.unwrap();
+  }
+
+  /** Resolves to the contained `Ok` value.
+   *
+   * # Panics
+   *
+   * Rejects with a panic if the value is an `Err`, with a panic message
+   * including the passed message, and the content of the `Err`.
+   */
+  async expect(this: AsyncResult<T, E>, msg: string): Promise<T> {
+    return (await this).expect(msg);
+  }
+
+  /** Resolves to the contained `Ok` value.
+   *
+   * # Panics
+   *
+   * Rejects with a panic if the value is an `Err`, with a panic message
+   * provided by the `Err`'s value.
+   */
+  async unwrap(this: AsyncResult<T, E>): Promise<T> {
+    return (await this).unwrap();
+  }
+
+  /** Resolves to the contained `Err` value.
+   *
+   * # Panics
+   *
+   * Rejects with a panic if the value is an `Ok`, with a panic message
+   * including the passed message, and the content of the `Ok`.
+   */
+  async expectErr(this: AsyncResult<T, E>, msg: string): Promise<E> {
+    return (await this).expectErr(msg);
+  }
+
+  /** Resolves to the contained `Err` value.
+   *
+   * # Panics
+   *
+   * Rejects with a panic if the value is an `Ok`, with a panic message
+   * provided by the `Ok`'s value.
+   */
+  async unwrapErr(this: AsyncResult<T, E>): Promise<E> {
+    return (await this).unwrapErr();
+  }
+
+  /** Unwraps an `Ok` or short-circuits the enclosing `AsyncResult.gen` on an
+   * `Err`, to be used with `yield*`, see `AsyncResult.gen`.
+   */
+  async *try(this: AsyncResult<T, E>): AsyncGenerator<Result<never, E>, T> {
+    return yield* (await this).try();
+  }
+
+  /** Converts from `AsyncResult<T, E>` to `Promise<T>`, resolving with the
+   * `Ok` value or rejecting with the `Err` value.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let x: AsyncResult<number, string> = AsyncResult.Ok(2);
+   * console.log(await x.toPromise()); // 2
+   *
+   * let y: AsyncResult<number, string> = AsyncResult.Err("emergency failure");
+   * await y.toPromise(); // rejects with `emergency failure`
+   * ```
+   */
+  toPromise(this: AsyncResult<T, E>): Promise<T> {
+    return this.promise.then((result) => result.toPromise());
+  }
+
+  /** Converts from `AsyncResult<Result<T, F>, E>` to
+   * `AsyncResult<T, E | F>`
+   *
+   * # Examples
+   *
+   * ```ts
+   * let x: AsyncResult<Result<string, number>, number> = AsyncResult.Ok(Ok("hello"));
+   * console.log(`${await x.flatten()}`); // Ok("hello")
+   *
+   * let y: AsyncResult<Result<string, number>, number> = AsyncResult.Ok(Err(6));
+   * console.log(`${await y.flatten()}`); // Err(6)
+   * ```
+   */
+  flatten<U, F>(this: AsyncResult<Result<U, F>, E>): AsyncResult<U, E | F> {
+    return this.andThen((result) => result);
+  }
+}
@@ -0,0 +1,156 @@
+import { deepStrictEqual, strictEqual } from "node:assert/strict";
+import { assertType, IsExact } from "./_test_util.ts";
+import { AsyncResult } from "./asyncResult.ts";
+import { None, Some } from "./option.ts";
+import { Err, Ok, Result } from "./result.ts";
+
+interface User {
+  name: string;
+}
+
+async function fetchUser(id: number): Promise<Result<User, string>> {
+  await Promise.resolve();
+  if (id > 2) return Err(`no user ${id}`);
+  return Ok({ name: ["alice", "bob"][id - 1] });
+}
+
+function checkName(name: string): Result<string, RangeError> {
+  if (name.length > 3) return Err(new RangeError(`${name} is too long`));
+  return Ok(name);
+}
+
+Deno.test("AsyncResult is awaitable into a Result", async () => {
+  const x = await AsyncResult.Ok<number, string>(2);
+  assertType<IsExact<typeof x, Result<number, string>>>(true);
+  deepStrictEqual(x, Ok(2));
+  deepStrictEqual(await AsyncResult.Err("error"), Err("error"));
+  deepStrictEqual(await AsyncResult.from(fetchUser(1)), Ok({ name: "alice" }));
+});
+
+Deno.test("AsyncResult.map", async (t) => {
+  await t.step("accepts plain values and Promises", async () => {
+    const x = AsyncResult.Ok<number, string>(2);
+    strictEqual(await x.map((v) => v * 2).unwrap(), 4);
+    strictEqual(await x.map((v) => Promise.resolve(v * 3)).unwrap(), 6);
+  });
+
+  await t.step("leaves an Err untouched", async () => {
+    let called = false;
+    const x = AsyncResult.Err<number, string>("error").map((v) => {
+      called = true;
+      return v;
+    });
+    strictEqual(await x.unwrapErr(), "error");
+    strictEqual(called, false);
+  });
+
+  await t.step("mapErr maps the error", async () => {
+    const x = AsyncResult.Err<number, number>(13)
+      .mapErr((code) => Promise.resolve(`error code: ${code}`));
+    assertType<IsExact<typeof x, AsyncResult<number, string>>>(true);
+    strictEqual(await x.unwrapErr(), "error code: 13");
+  });
+});
+
+Deno.test("AsyncResult.andThen", async (t) => {
+  await t.step("accepts Results, Promises and AsyncResults", async () => {
+    const x = AsyncResult.Ok<number, string>(2)
+      .andThen(fetchUser)
+      .andThen((user) => checkName(user.name))
+      .andThen((name) => AsyncResult.Ok(name.toUpperCase()));
+    assertType<
+      IsExact<typeof x, AsyncResult<string, string | RangeError>>
+    >(true);
+    strictEqual(await x.unwrap(), "BOB");
+  });
+
+  await t.step("stops at the first Err", async () => {
+    const x = AsyncResult.Ok<number, string>(3)
+      .andThen(fetchUser)
+      .andThen((user) => checkName(user.name));
+    strictEqual(await x.unwrapErr(), "no user 3");
+  });
+
+  await t.step("orElse recovers from an Err", async () => {
+    const x = AsyncResult.Err<number, number>(1)
+      .orElse((attempt) => Promise.resolve(Err(attempt + 1)))
+      .orElse((attempt) => Ok(attempt * 10));
+    assertType<IsExact<typeof x, AsyncResult<number, never>>>(true);
+    strictEqual(await x.unwrap(), 20);
+  });
+
+  await t.step("and and or", async () => {
+    const x = AsyncResult.Ok<number, string>(2);
+    strictEqual(await x.and(Err("late error")).unwrapErr(), "late error");
+    strictEqual(await x.or(Ok(100)).unwrap(), 2);
+    strictEqual(
+      await AsyncResult.Err<number, string>("early").or(Ok(100)).unwrap(),
+      100,
+    );
+  });
+
+  await t.step("flatten", async () => {
+    const x = AsyncResult.Ok<Result<string, number>, boolean>(Err(6));
+    const y = x.flatten();
+    assertType<IsExact<typeof y, AsyncResult<string, number | boolean>>>(true);
+    deepStrictEqual(await y, Err(6));
+  });
+});
+
+Deno.test("AsyncResult queries and extractors", async () => {
+  const x = AsyncResult.Ok<number, string>(2);
+  const y = AsyncResult.Err<number, string>("error");
+  strictEqual(await x.isOk(), true);
+  strictEqual(await y.isErr(), true);
+  strictEqual(await x.contains(2), true);
+  strictEqual(await y.containsErr("error"), true);
+  deepStrictEqual(await x.ok(), Some(2));
+  deepStrictEqual(await x.err(), None());
+  strictEqual(await y.unwrapOr(5), 5);
+  strictEqual(await y.unwrapOrElse((e) => e.length), 5);
+  strictEqual(await x.mapOr(0, (v) => Promise.resolve(v + 1)), 3);
+  strictEqual(await y.mapOrElse((e) => e, String), "error");
+  strictEqual(await x.toPromise(), 2);
+  await y.toPromise().then(
+    () => Promise.reject(new Error("should reject")),
+    (e) => strictEqual(e, "error"),
+  );
+});
+
+Deno.test("AsyncResult interoperates with Option.okOr", async () => {
+  const x = AsyncResult.from(None<number>().okOr("nothing here"));
+  assertType<IsExact<typeof x, AsyncResult<number, string>>>(true);
+  strictEqual(await x.unwrapErr(), "nothing here");
+  const y = AsyncResult.from(Promise.resolve(Some(1).okOr("nothing here")))
+    .map((v) => v + 1);
+  strictEqual(await y.unwrap(), 2);
+});
+
+Deno.test("AsyncResult.gen", async (t) => {
+  await t.step("returns Ok of the return value", async () => {
+    const names = AsyncResult.gen(async function* () {
+      const alice = yield* AsyncResult.from(fetchUser(1)).try();
+      const bob = yield* AsyncResult.from(fetchUser(2)).try();
+      return `${alice.name} and ${yield* checkName(bob.name).try()}`;
+    });
+    assertType<
+      IsExact<typeof names, AsyncResult<string, string | RangeError>>
+    >(true);
+    strictEqual(await names.unwrap(), "alice and bob");
+  });
+
+  await t.step("stops at the first Err", async () => {
+    let reached = false;
+    const names = AsyncResult.gen(async function* () {
+      const alice = yield* AsyncResult.from(fetchUser(1)).try();
+      yield* checkName(alice.name).try();
+      reached = true;
+      return alice.name;
+    });
+    deepStrictEqual(
+      await names.unwrapErr(),
+      new RangeError("alice is too long"),
+    );
+    strictEqual(reached, false);
+  });
+});
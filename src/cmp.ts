@@ -0,0 +1,336 @@
+import { debug } from "./debug.ts";
+import { panic } from "./panic.ts";
+
+/** Key of the `Eq` protocol method, see `Eq`. */
+export const Eq: unique symbol = Symbol("Eq");
+
+/** Equality protocol.
+ *
+ * Classes implement it to customise how `equals` (and thus `Option.eq`,
+ * `Result.eq`, `contains`, `containsErr`...) compares their instances,
+ * instead of the default structural comparison.
+ *
+ * ```ts
+ * class User implements Eq {
+ *    constructor(public id: number, public lastSeen: Date) {}
+ *
+ *    [Eq](other: unknown): boolean {
+ *       return other instanceof User && other.id == this.id;
+ *    }
+ * }
+ *
+ * let x = Some(new User(1, new Date()));
+ * console.log(x.contains(new User(1, new Date(0)))); // true
+ * ```
+ */
+export interface Eq {
+  [Eq](other: unknown): boolean;
+}
+
+function implementsEq(value: object): value is Eq {
+  return typeof (value as Partial<Eq>)[Eq] == "function";
+}
+
+/** Returns `true` if `a` and `b` are structurally equal.
+ *
+ * Primitives are compared with `===`, `NaN` being equal to itself. Objects
+ * implementing `Eq` decide by themselves, other objects are equal if they
+ * have the same prototype and equal contents: elements of arrays, entries of
+ * `Map`s, elements of `Set`s matched one to one, time of `Date`s, source and
+ * flags of `RegExp`s, name, message and cause of `Error`s, and own
+ * enumerable properties of anything else, errors included.
+ *
+ * Cyclic structures are equal if they unfold to equal values.
+ *
+ * # Examples
+ *
+ * ```ts
+ * console.log(equals({ id: 1, tags: ["a"] }, { id: 1, tags: ["a"] })); // true
+ * console.log(equals(Some([1, 2]), Some([1, 2]))); // true
+ * console.log(equals(new Map([[1, "a"]]), new Map([[1, "b"]]))); // false
+ * console.log(equals(new Error("a"), new Error("b"))); // false
+ * ```
+ */
+export function equals(a: unknown, b: unknown): boolean {
+  return structuralEquals(a, b, new Map());
+}
+
+// `seen` maps the objects being compared, up the stack, to the objects they
+// are compared with, so that a cycle is assumed equal when it comes back to
+// the same pair. Pairs are removed once compared, so that a failed branch,
+// like a non-matching element of a `Set`, leaves no assumption behind.
+function structuralEquals(
+  a: unknown,
+  b: unknown,
+  seen: Map<object, object>,
+): boolean {
+  if (a === b || (a !== a && b !== b)) return true;
+  if (typeof a != "object" || typeof b != "object" || !a || !b) return false;
+  if (implementsEq(a)) return a[Eq](b);
+  if (Object.getPrototypeOf(a) != Object.getPrototypeOf(b)) return false;
+  if (seen.get(a) == b) return true;
+  const previous = seen.get(a);
+  seen.set(a, b);
+  try {
+    return objectEquals(a, b, seen);
+  } finally {
+    if (previous) seen.set(a, previous);
+    else seen.delete(a);
+  }
+}
+
+function objectEquals(
+  a: object,
+  b: object,
+  seen: Map<object, object>,
+): boolean {
+  if (a instanceof Date) return a.getTime() == (b as Date).getTime();
+  if (a instanceof RegExp) return String(a) == String(b);
+  if (Array.isArray(a)) {
+    const other = b as unknown[];
+    return a.length == other.length &&
+      a.every((value, i) => structuralEquals(value, other[i], seen));
+  }
+  if (a instanceof Map) {
+    const other = b as Map<unknown, unknown>;
+    if (a.size != other.size) return false;
+    for (const [key, value] of a) {
+      if (!other.has(key)) return false;
+      if (!structuralEquals(value, other.get(key), seen)) return false;
+    }
+    return true;
+  }
+  if (a instanceof Set) {
+    const unmatched = [...b as Set<unknown>];
+    if (a.size != unmatched.length) return false;
+    for (const value of a) {
+      const i = unmatched.findIndex((other) =>
+        structuralEquals(value, other, seen)
+      );
+      if (i == -1) return false;
+      unmatched.splice(i, 1);
+    }
+    return true;
+  }
+  if (a instanceof Error) {
+    const other = b as Error;
+    if (a.name != other.name || a.message != other.message) return false;
+    if (!structuralEquals(a.cause, other.cause, seen)) return false;
+  }
+
+  const keys = Object.keys(a);
+  if (keys.length != Object.keys(b).length) return false;
+  return keys.every((key) =>
+    Object.prototype.hasOwnProperty.call(b, key) &&
+    structuralEquals(
+      (a as Record<string, unknown>)[key],
+      (b as Record<string, unknown>)[key],
+      seen,
+    )
+  );
+}
+
+/** The result of a comparison between two values, usable as the return
+ * value of an `Array.prototype.sort` comparator.
+ */
+export enum Ordering {
+  Less = -1,
+  Equal = 0,
+  Greater = 1,
+}
+
+// deno-lint-ignore no-namespace
+export namespace Ordering {
+  /** Returns `ordering` if it is not `Equal`, `other` otherwise.
+   *
+   * Useful to chain comparisons, like comparing by last name then by first
+   * name.
+   *
+   * # Examples
+   *
+   * ```ts
+   * console.log(Ordering.then(Ordering.Equal, Ordering.Less)); // Ordering.Less
+   * console.log(Ordering.then(Ordering.Greater, Ordering.Less)); // Ordering.Greater
+   * ```
+   */
+  export function then(ordering: Ordering, other: Ordering): Ordering {
+    return ordering == Ordering.Equal ? other : ordering;
+  }
+
+  /** Returns `ordering` if it is not `Equal`, the result of `f` otherwise.
+   *
+   * Like `then`, but `f` is only called if needed.
+   */
+  export function thenWith(ordering: Ordering, f: () => Ordering): Ordering {
+    return ordering == Ordering.Equal ? f() : ordering;
+  }
+
+  /** Reverses `ordering`, `Less` becoming `Greater` and `Greater` becoming
+   * `Less`.
+   *
+   * # Examples
+   *
+   * ```ts
+   * console.log(Ordering.reverse(Ordering.Less)); // Ordering.Greater
+   * console.log(Ordering.reverse(Ordering.Equal)); // Ordering.Equal
+   * ```
+   */
+  export function reverse(ordering: Ordering): Ordering {
+    return -ordering || Ordering.Equal;
+  }
+
+  /** Converts the result of a classic comparator, like
+   * `String.prototype.localeCompare`, to an `Ordering` according to its
+   * sign.
+   *
+   * # Examples
+   *
+   * ```ts
+   * console.log(Ordering.from("a".localeCompare("b"))); // Ordering.Less
+   * ```
+   */
+  export function from(n: number): Ordering {
+    if (n < 0) return Ordering.Less;
+    if (n > 0) return Ordering.Greater;
+    return Ordering.Equal;
+  }
+}
+
+/** Key of the `Ord` protocol method, see `Ord`. */
+export const Ord: unique symbol = Symbol("Ord");
+
+/** Ordering protocol.
+ *
+ * Classes implement it so that `compare` (and thus `Option.cmp`,
+ * `Result.cmp`, `compareBy`...) can order their instances. The method returns
+ * `undefined` when `other` cannot be compared with `this`.
+ *
+ * ```ts
+ * class Version implements Ord {
+ *    constructor(public major: number, public minor: number) {}
+ *
+ *    [Ord](other: unknown): Ordering | undefined {
+ *       if (!(other instanceof Version)) return undefined;
+ *       return Ordering.then(
+ *          compare(this.major, other.major),
+ *          compare(this.minor, other.minor),
+ *       );
+ *    }
+ * }
+ *
+ * let versions = [Some(new Version(1, 2)), None(), Some(new Version(1, 0))];
+ * versions.sort((a, b) => a.cmp(b)); // [ None, Some(Version { major: 1, minor: 0 }), Some(Version { major: 1, minor: 2 }) ]
+ * ```
+ */
+export interface Ord {
+  [Ord](other: unknown): Ordering | undefined;
+}
+
+function implementsOrd(value: object): value is Ord {
+  return typeof (value as Partial<Ord>)[Ord] == "function";
+}
+
+/** A comparison function, usable with `Array.prototype.sort`. */
+export type Comparator<T> = (a: T, b: T) => Ordering;
+
+/** Compares `a` and `b`.
+ *
+ * Numbers, bigints, strings and booleans are compared with `<`, `Date`s by
+ * time and arrays lexicographically. Objects implementing `Ord`, like
+ * `Option` and `Result`, decide by themselves.
+ *
+ * # Panics (throws)
+ *
+ * Panics if `a` and `b` cannot be compared, like `NaN` and a number or values
+ * of different types.
+ *
+ * # Examples
+ *
+ * ```ts
+ * console.log(compare(1, 2)); // Ordering.Less
+ * console.log(compare([1, 2], [1])); // Ordering.Greater
+ * console.log([3, 1, 2].sort(compare)); // [ 1, 2, 3 ]
+ * ```
+ */
+export function compare(a: unknown, b: unknown): Ordering {
+  const ordering = partialCompare(a, b);
+  if (ordering == undefined) {
+    panic(`cannot compare \`${debug(a)}\` with \`${debug(b)}\``);
+  }
+  return ordering;
+}
+
+/** Compares `a` and `b` like `compare`, returning `undefined` if they
+ * cannot be compared.
+ */
+export function partialCompare(a: unknown, b: unknown): Ordering | undefined {
+  if (a === b) return Ordering.Equal;
+  if (typeof a != typeof b) return undefined;
+  switch (typeof a) {
+    case "number":
+    case "bigint":
+    case "string":
+    case "boolean":
+      if (a < (b as typeof a)) return Ordering.Less;
+      if (a > (b as typeof a)) return Ordering.Greater;
+      if (a == b) return Ordering.Equal;
+      return undefined;
+  }
+  if (typeof a != "object" || !a || !b) return undefined;
+  if (implementsOrd(a)) return a[Ord](b);
+  if (a instanceof Date && b instanceof Date) {
+    return partialCompare(a.getTime(), b.getTime());
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    for (let i = 0; i < a.length && i < b.length; i++) {
+      const ordering = partialCompare(a[i], b[i]);
+      if (ordering != Ordering.Equal) return ordering;
+    }
+    return partialCompare(a.length, b.length);
+  }
+  return undefined;
+}
+
+/** Builds a comparator comparing values by the key `key` extracts from them,
+ * with `compareKeys` (`compare` by default).
+ *
+ * # Examples
+ *
+ * ```ts
+ * let users = [{ name: "Bob", age: 32 }, { name: "Alice", age: 27 }];
+ * users.sort(compareBy((user) => user.age)); // [ { name: "Alice", age: 27 }, { name: "Bob", age: 32 } ]
+ * ```
+ */
+export function compareBy<T, K>(
+  key: (value: T) => K,
+  compareKeys: Comparator<K> = compare,
+): Comparator<T> {
+  return (a, b) => compareKeys(key(a), key(b));
+}
+
+/** Chains comparators into one, ties of a comparator being broken by the
+ * next one, like `Ordering.thenWith` does.
+ *
+ * # Examples
+ *
+ * ```ts
+ * let users = [
+ *    { name: "Bob", age: 32 },
+ *    { name: "Alice", age: 32 },
+ *    { name: "Carol", age: 27 },
+ * ];
+ * users.sort(sortBy(
+ *    compareBy((user) => user.age),
+ *    compareBy((user) => user.name),
+ * )); // Carol, Alice, Bob
+ * ```
+ */
+export function sortBy<T>(...comparators: Comparator<T>[]): Comparator<T> {
+  return (a, b) => {
+    for (const comparator of comparators) {
+      const ordering = comparator(a, b);
+      if (ordering != Ordering.Equal) return ordering;
+    }
+    return Ordering.Equal;
+  };
+}
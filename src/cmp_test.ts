@@ -0,0 +1,234 @@
+import { deepStrictEqual, strictEqual, throws } from "node:assert/strict";
+import {
+  compare,
+  compareBy,
+  Eq,
+  equals,
+  Ord,
+  Ordering,
+  partialCompare,
+  sortBy,
+} from "./cmp.ts";
+import { None, Option, Some } from "./option.ts";
+import { PanicError } from "./panic.ts";
+import { Err, Ok, Result } from "./result.ts";
+
+Deno.test("equals", async (t) => {
+  await t.step("compares primitives", () => {
+    strictEqual(equals(1, 1), true);
+    strictEqual(equals(NaN, NaN), true);
+    strictEqual(equals(1, "1"), false);
+    strictEqual(equals(null, undefined), false);
+  });
+
+  await t.step("compares objects structurally", () => {
+    strictEqual(equals({ id: 1, tags: ["a"] }, { id: 1, tags: ["a"] }), true);
+    strictEqual(equals({ id: 1 }, { id: 1, name: undefined }), false);
+    strictEqual(equals([1, 2], [1, 2, 3]), false);
+    strictEqual(equals(new Date(0), new Date(0)), true);
+    strictEqual(equals(/a/g, /a/i), false);
+    strictEqual(equals(new Map([[1, "a"]]), new Map([[1, "b"]])), false);
+    strictEqual(equals(Some([1, 2]), Some([1, 2])), true);
+    strictEqual(equals(Some(1), None()), false);
+  });
+
+  await t.step("compares Errors by name, message and cause", () => {
+    strictEqual(equals(new Error("a"), new Error("a")), true);
+    strictEqual(equals(new Error("a"), new Error("b")), false);
+    strictEqual(equals(new TypeError("a"), new RangeError("a")), false);
+    strictEqual(
+      equals(
+        new Error("a", { cause: new Error("b") }),
+        new Error("a", { cause: new Error("c") }),
+      ),
+      false,
+    );
+    strictEqual(
+      equals(Object.assign(new Error("a"), { code: 1 }), new Error("a")),
+      false,
+    );
+    strictEqual(Err(new Error("a")).eq(Err(new Error("b"))), false);
+    strictEqual(Err(new TypeError("x")).containsErr(new TypeError("y")), false);
+    strictEqual(Err(new TypeError("x")).containsErr(new TypeError("x")), true);
+  });
+
+  await t.step("matches the elements of Sets one to one", () => {
+    strictEqual(equals(new Set([[1], [2]]), new Set([[2], [1]])), true);
+    strictEqual(equals(new Set([[1], [1]]), new Set([[1], [2]])), false);
+    strictEqual(equals(new Set([[1], [2]]), new Set([[1], [1]])), false);
+  });
+
+  await t.step("compares cyclic structures", () => {
+    type Node = { value: number; next?: Node };
+    const a: Node = { value: 1 };
+    a.next = a;
+    const b: Node = { value: 1 };
+    b.next = b;
+    const c: Node = { value: 1, next: { value: 2 } };
+    c.next!.next = c;
+    strictEqual(equals(a, b), true);
+    strictEqual(equals(a, c), false);
+    strictEqual(equals(Ok([a]), Ok([b])), true);
+  });
+
+  await t.step("forgets the assumptions of failed branches", () => {
+    const p = { v: 1 };
+    const q = { v: 2 };
+    // Matching the Sets compares `p` with `q` first, which fails, and must
+    // not leave them assumed equal when they are compared again.
+    strictEqual(
+      equals([new Set([p, { v: 2 }]), p], [new Set([q, p]), q]),
+      false,
+    );
+  });
+
+  await t.step("lets Eq implementations decide", () => {
+    class User implements Eq {
+      constructor(public id: number, public lastSeen: Date) {}
+
+      [Eq](other: unknown): boolean {
+        return other instanceof User && other.id == this.id;
+      }
+    }
+    strictEqual(
+      equals(new User(1, new Date()), new User(1, new Date(0))),
+      true,
+    );
+    strictEqual(
+      Some(new User(1, new Date())).contains(new User(2, new Date())),
+      false,
+    );
+  });
+});
+
+class Version implements Ord {
+  constructor(public major: number, public minor: number) {}
+
+  [Ord](other: unknown): Ordering | undefined {
+    if (!(other instanceof Version)) return undefined;
+    return Ordering.then(
+      compare(this.major, other.major),
+      compare(this.minor, other.minor),
+    );
+  }
+}
+
+Deno.test("Ordering", async (t) => {
+  await t.step("then and thenWith break ties", () => {
+    strictEqual(Ordering.then(Ordering.Equal, Ordering.Less), Ordering.Less);
+    strictEqual(
+      Ordering.then(Ordering.Greater, Ordering.Less),
+      Ordering.Greater,
+    );
+    let called = false;
+    const f = () => {
+      called = true;
+      return Ordering.Less;
+    };
+    strictEqual(Ordering.thenWith(Ordering.Greater, f), Ordering.Greater);
+    strictEqual(called, false);
+    strictEqual(Ordering.thenWith(Ordering.Equal, f), Ordering.Less);
+  });
+
+  await t.step("reverse", () => {
+    strictEqual(Ordering.reverse(Ordering.Less), Ordering.Greater);
+    strictEqual(Ordering.reverse(Ordering.Greater), Ordering.Less);
+    strictEqual(Object.is(Ordering.reverse(Ordering.Equal), 0), true);
+  });
+
+  await t.step("from", () => {
+    strictEqual(Ordering.from("a".localeCompare("b")), Ordering.Less);
+    strictEqual(Ordering.from(42), Ordering.Greater);
+    strictEqual(Ordering.from(-0), Ordering.Equal);
+  });
+});
+
+Deno.test("compare", async (t) => {
+  await t.step("compares primitives", () => {
+    strictEqual(compare(1, 2), Ordering.Less);
+    strictEqual(compare("b", "a"), Ordering.Greater);
+    strictEqual(compare(2n, 2n), Ordering.Equal);
+    strictEqual(compare(false, true), Ordering.Less);
+  });
+
+  await t.step("compares Dates and arrays", () => {
+    strictEqual(compare(new Date(1), new Date(2)), Ordering.Less);
+    strictEqual(compare(new Date(1), new Date(1)), Ordering.Equal);
+    strictEqual(compare([1, 2], [1]), Ordering.Greater);
+    strictEqual(compare([1, 2], [1, 3]), Ordering.Less);
+    deepStrictEqual([3, 1, 2].sort(compare), [1, 2, 3]);
+  });
+
+  await t.step("uses Ord", () => {
+    strictEqual(
+      compare(new Version(1, 2), new Version(1, 0)),
+      Ordering.Greater,
+    );
+    strictEqual(partialCompare(new Version(1, 2), 1), undefined);
+  });
+
+  await t.step("panics on incomparable values", () => {
+    strictEqual(partialCompare(NaN, 1), undefined);
+    strictEqual(partialCompare(1, "1"), undefined);
+    strictEqual(partialCompare({}, {}), undefined);
+    throws(() => compare(NaN, 1), PanicError);
+    throws(() => compare(1, "1"), PanicError);
+  });
+});
+
+Deno.test("cmp and partialCmp", async (t) => {
+  await t.step("None is less than Some", () => {
+    const values: Option<number>[] = [Some(2), None(), Some(1)];
+    deepStrictEqual(values.sort((a, b) => a.cmp(b)), [
+      None(),
+      Some(1),
+      Some(2),
+    ]);
+    strictEqual(None<number>().cmp(None()), Ordering.Equal);
+  });
+
+  await t.step("Ok is less than Err", () => {
+    const values: Result<number, string>[] = [Err("a"), Ok(2), Ok(1)];
+    deepStrictEqual(values.sort((a, b) => a.cmp(b)), [Ok(1), Ok(2), Err("a")]);
+    strictEqual(Err("a").cmp(Err("b")), Ordering.Less);
+  });
+
+  await t.step("compares payloads implementing Ord", () => {
+    strictEqual(
+      Some(new Version(1, 2)).cmp(Some(new Version(1, 0))),
+      Ordering.Greater,
+    );
+  });
+
+  await t.step("partialCmp is None on incomparable payloads", () => {
+    deepStrictEqual(Some(NaN).partialCmp(Some(1)), None());
+    deepStrictEqual(Ok(NaN).partialCmp(Ok(1)), None());
+    deepStrictEqual(Some(1).partialCmp(Some(2)), Some(Ordering.Less));
+    throws(() => Ok(NaN).cmp(Ok(1)), PanicError);
+  });
+});
+
+Deno.test("compareBy and sortBy", () => {
+  const users = [
+    { name: "Bob", age: 32 },
+    { name: "Alice", age: 32 },
+    { name: "Carol", age: 27 },
+  ];
+  deepStrictEqual(
+    [...users].sort(compareBy((user) => user.age)).map((user) => user.name),
+    ["Carol", "Bob", "Alice"],
+  );
+  deepStrictEqual(
+    [...users].sort(sortBy(
+      compareBy((user) => user.age),
+      compareBy((user) => user.name),
+    )).map((user) => user.name),
+    ["Carol", "Alice", "Bob"],
+  );
+  deepStrictEqual(
+    [...users].sort(
+      compareBy((user) => user.name, (a, b) => compare(b, a)),
+    ).map((user) => user.name),
+    ["Carol", "Bob", "Alice"],
+  );
+});
@@ -0,0 +1,418 @@
+// Checks that both implementations of `Option`, the class of `mod.ts` and
+// the interface of `expensive_option.ts`, behave the same. Their types being
+// unrelated, each check is written against the methods they share, listed
+// below, and run against the constructors of both.
+import {
+  deepStrictEqual,
+  doesNotThrow,
+  rejects,
+  strictEqual,
+  throws,
+} from "node:assert/strict";
+import type { AsyncResult } from "./asyncResult.ts";
+import { compare, equals, Ordering } from "./cmp.ts";
+import { ContextError } from "./context.ts";
+import type { DefaultProvider } from "./default.ts";
+import * as expensive from "./expensiveOption.ts";
+import type { Iter } from "./iter.ts";
+import { type MatchArm, Pattern } from "./match.ts";
+import { None, Some } from "./option.ts";
+import { PanicError } from "./panic.ts";
+import { Err, Ok, Result } from "./result.ts";
+
+interface Option<T> {
+  isSome(): boolean;
+  isSomeAnd(f: (arg: T) => boolean): boolean;
+  isNone(): boolean;
+  isNoneOr(f: (arg: T) => boolean): boolean;
+  contains<U>(x: U | T): boolean;
+  eq(other: Option<T>): boolean;
+  cmp(other: Option<T>): Ordering;
+  partialCmp(other: Option<T>): Option<Ordering>;
+  expect(msg: string): T;
+  expectNone(msg: string): void;
+  unwrap(): T;
+  unwrapOr(defaultValue: T): T;
+  unwrapOrElse(f: () => T): T;
+  unwrapOrDefault<U extends T>(provider: DefaultProvider<U>): U;
+  map<U>(f: (arg: T) => U): Option<U>;
+  inspect(f: (arg: T) => void): Option<T>;
+  mapOr<U>(defaultValue: U, f: (arg: T) => U): U;
+  mapOrElse<U>(defaultValue: () => U, f: (arg: T) => U): U;
+  mapOrDefault<U>(provider: DefaultProvider<U>, f: (arg: T) => U): U;
+  match<R>(arms: { Some: (value: T) => R; None: () => R }): R;
+  matchWhen<R>(...arms: MatchArm<Option<T>, R>[]): R;
+  // The class narrows these to `Ok` and `Err`, which TypeScript can't relate
+  // back to `Result` here, so checks compare them to a `Result` instead.
+  okOr<E>(error: E): object;
+  okOrElse<E>(error: () => E): object;
+  okOrElseAsync<E>(error: () => E | PromiseLike<E>): AsyncResult<T, E>;
+  context(context: string): Result<T, ContextError>;
+  withContext(f: () => string): Result<T, ContextError>;
+  iter(): Iter<T>;
+  toArray(): T[];
+  and<U>(optb: Option<U>): Option<U>;
+  andThen<U>(optb: (arg: T) => Option<U>): Option<U>;
+  filter(predicate: (arg: T) => boolean): Option<T>;
+  or(optb: Option<T>): Option<T>;
+  orElse(optb: () => Option<T>): Option<T>;
+  xor(optb: Option<T>): Option<T>;
+  insert(value: T): T;
+  getOrInsert(value: T): T;
+  getOrInsertWith(f: () => T): T;
+  getOrInsertDefault<U extends T>(provider: DefaultProvider<U>): U;
+  take(): Option<T>;
+  takeIf(predicate: (arg: T) => boolean): Option<T>;
+  replace(value: T): Option<T>;
+  zip<U>(other: Option<U>): Option<[T, U]>;
+  zipWith<U, R>(other: Option<U>, f: (lhs: T, rhs: U) => R): Option<R>;
+  unzip<A, B>(this: Option<[A, B]>): [Option<A>, Option<B>];
+  copied(): Option<T>;
+  cloned(): Option<T>;
+  transpose<U, E>(this: Option<Result<U, E>>): Result<Option<U>, E>;
+  flatten(): Option<unknown>;
+  [Symbol.iterator](): Iterator<T>;
+}
+
+interface Constructors {
+  Some<T>(value: T): Option<T>;
+  None<T>(): Option<T>;
+}
+
+type Check = (impl: Constructors) => void | Promise<void>;
+
+function variant(option: Option<unknown>): unknown[] {
+  return option.isSome() ? ["Some", option.unwrap()] : ["None"];
+}
+
+const checks: Record<string, Check> = {
+  "Some is Some": ({ Some }) => {
+    strictEqual(Some(1).isSome(), true);
+    strictEqual(Some(1).isNone(), false);
+  },
+  "None is None": ({ None }) => {
+    strictEqual(None().isNone(), true);
+    strictEqual(None().isSome(), false);
+  },
+  "isSomeAnd and isNoneOr": ({ Some, None }) => {
+    strictEqual(Some(2).isSomeAnd((x) => x > 1), true);
+    strictEqual(Some(0).isSomeAnd((x) => x > 1), false);
+    strictEqual(None<number>().isSomeAnd(() => true), false);
+    strictEqual(Some(2).isNoneOr((x) => x > 1), true);
+    strictEqual(Some(0).isNoneOr((x) => x > 1), false);
+    strictEqual(None<number>().isNoneOr(() => false), true);
+  },
+  "Some(null) and Some(undefined) are Some": ({ Some }) => {
+    deepStrictEqual(variant(Some(null)), ["Some", null]);
+    deepStrictEqual(variant(Some(undefined)), ["Some", undefined]);
+  },
+  "contains compares structurally": ({ Some, None }) => {
+    strictEqual(Some([1, { a: 2 }]).contains([1, { a: 2 }]), true);
+    strictEqual(Some(1).contains(2), false);
+    strictEqual(None().contains(undefined), false);
+  },
+  "eq compares structurally": ({ Some, None }) => {
+    strictEqual(Some([1, 2]).eq(Some([1, 2])), true);
+    strictEqual(Some([1, 2]).eq(Some([2, 1])), false);
+    strictEqual(None().eq(None()), true);
+    strictEqual(Some(1).eq(None()), false);
+    strictEqual(None().eq(Some(1)), false);
+  },
+  "equals uses eq": ({ Some, None }) => {
+    strictEqual(equals(Some({ a: 1 }), Some({ a: 1 })), true);
+    strictEqual(equals([None()], [None()]), true);
+    strictEqual(equals(Some(1), None()), false);
+    strictEqual(equals(Some(1), { Some: 1 }), false);
+  },
+  "cmp orders None before Some": ({ Some, None }) => {
+    strictEqual(None().cmp(Some(0)), Ordering.Less);
+    strictEqual(Some(2).cmp(Some(1)), Ordering.Greater);
+    strictEqual(None().cmp(None()), Ordering.Equal);
+    deepStrictEqual(
+      [Some(3), None(), Some(1)].sort((a, b) => a.cmp(b)).map(variant),
+      [["None"], ["Some", 1], ["Some", 3]],
+    );
+  },
+  "cmp panics and partialCmp is None on incomparable values": (
+    { Some, None },
+  ) => {
+    throws(() => Some(NaN).cmp(Some(1)), PanicError);
+    deepStrictEqual(variant(Some(NaN).partialCmp(Some(1))), ["None"]);
+    deepStrictEqual(variant(Some(1).partialCmp(None())), [
+      "Some",
+      Ordering.Greater,
+    ]);
+    strictEqual(compare(Some(1), Some(2)), Ordering.Less);
+  },
+  "expect and unwrap return the value of a Some": ({ Some }) => {
+    strictEqual(Some(1).expect("msg"), 1);
+    strictEqual(Some(null).unwrap(), null);
+  },
+  "expect and unwrap panic on None": ({ None }) => {
+    throws(() => None().expect("msg"), PanicError);
+    throws(() => None().unwrap(), PanicError);
+  },
+  "expectNone panics on Some": ({ Some, None }) => {
+    doesNotThrow(() => None().expectNone("msg"));
+    throws(() => Some(1).expectNone("msg"), PanicError);
+  },
+  "unwrapOr and unwrapOrElse": ({ Some, None }) => {
+    strictEqual(Some<number | null>(null).unwrapOr(1), null);
+    strictEqual(None<number>().unwrapOr(1), 1);
+    strictEqual(Some(2).unwrapOrElse(() => 1), 2);
+    strictEqual(None<number>().unwrapOrElse(() => 1), 1);
+  },
+  "unwrapOrDefault": ({ Some, None }) => {
+    strictEqual(Some(2).unwrapOrDefault(Number), 2);
+    strictEqual(None<number>().unwrapOrDefault(Number), 0);
+    deepStrictEqual(None<number[]>().unwrapOrDefault(Array), []);
+  },
+  "map": ({ Some, None }) => {
+    deepStrictEqual(variant(Some(2).map((x) => x * 2)), ["Some", 4]);
+    deepStrictEqual(variant(Some(2).map(() => null)), ["Some", null]);
+    deepStrictEqual(variant(None<number>().map((x) => x * 2)), ["None"]);
+  },
+  "inspect": ({ Some, None }) => {
+    const seen: number[] = [];
+    const x = Some(1);
+    strictEqual(x.inspect((v) => seen.push(v)), x);
+    deepStrictEqual(variant(None<number>().inspect((v) => seen.push(v))), [
+      "None",
+    ]);
+    deepStrictEqual(seen, [1]);
+  },
+  "mapOr and mapOrElse": ({ Some, None }) => {
+    strictEqual(Some(2).mapOr(0, (x) => x * 2), 4);
+    strictEqual(None<number>().mapOr(0, (x) => x * 2), 0);
+    strictEqual(Some(2).mapOrElse(() => 0, (x) => x * 2), 4);
+    strictEqual(None<number>().mapOrElse(() => 0, (x) => x * 2), 0);
+  },
+  "mapOrDefault": ({ Some, None }) => {
+    strictEqual(Some("ab").mapOrDefault(Number, (x) => x.length), 2);
+    strictEqual(None<string>().mapOrDefault(Number, (x) => x.length), 0);
+  },
+  "match calls the matching arm": ({ Some, None }) => {
+    strictEqual(Some(3).match({ Some: (v) => v * 2, None: () => 0 }), 6);
+    strictEqual(None<number>().match({ Some: (v) => v * 2, None: () => 0 }), 0);
+  },
+  "matchWhen returns the first matching arm": ({ Some, None }) => {
+    const describe = (x: Option<number>) =>
+      x.matchWhen(
+        Pattern.when((x: Option<number>) => x.isSomeAnd((v) => v > 3))
+          .arm((x) => `big ${x.unwrap()}`),
+        Pattern.when((x: Option<number>) => x.isSome())
+          .arm((x) => `small ${x.unwrap()}`),
+        Pattern.when((x: Option<number>) => x.isNone()).arm(() => "nothing"),
+      );
+    strictEqual(describe(Some(5)), "big 5");
+    strictEqual(describe(Some(1)), "small 1");
+    strictEqual(describe(None()), "nothing");
+    throws(() => Some(1).matchWhen<string>(), PanicError);
+  },
+  "okOr and okOrElse": ({ Some, None }) => {
+    deepStrictEqual(Some(1).okOr("e"), Ok(1));
+    deepStrictEqual(None().okOr("e"), Err("e"));
+    deepStrictEqual(Some(1).okOrElse(() => "e"), Ok(1));
+    deepStrictEqual(None().okOrElse(() => "e"), Err("e"));
+  },
+  "okOrElseAsync only builds the error of a None": ({ Some, None }) => {
+    let calls = 0;
+    Some(1).okOrElseAsync(() => calls++);
+    None().okOrElseAsync(() => calls++);
+    strictEqual(calls, 1);
+  },
+  "okOrElseAsync rejects when error throws": async ({ None }) => {
+    const result = None().okOrElseAsync(() => {
+      throw new Error("boom");
+    });
+    await rejects(async () => await result, new Error("boom"));
+  },
+  "context and withContext": ({ Some, None }) => {
+    const error = None().context("missing HOME").unwrapErr();
+    let calls = 0;
+    const lazy = Some(1).withContext(() => `${calls++}`);
+    strictEqual(error instanceof ContextError, true);
+    strictEqual(error.message, "missing HOME");
+    strictEqual(Some(1).context("unused").unwrap(), 1);
+    strictEqual(lazy.unwrap(), 1);
+    strictEqual(calls, 0);
+    strictEqual(None().withContext(() => "lazy").unwrapErr().message, "lazy");
+  },
+  "iter and iteration": ({ Some, None }) => {
+    deepStrictEqual([...Some(1)], [1]);
+    deepStrictEqual([...None()], []);
+    deepStrictEqual(Some(null).iter().collect(), [null]);
+    strictEqual(None().iter().next().isNone(), true);
+  },
+  "toArray": ({ Some, None }) => {
+    deepStrictEqual(Some(1).toArray(), [1]);
+    deepStrictEqual(None().toArray(), []);
+  },
+  "and and andThen": ({ Some, None }) => {
+    deepStrictEqual(variant(Some(1).and(Some("a"))), ["Some", "a"]);
+    deepStrictEqual(variant(None().and(Some("a"))), ["None"]);
+    deepStrictEqual(variant(Some(1).and(None())), ["None"]);
+    deepStrictEqual(variant(Some(2).andThen((x) => Some(x * 2))), ["Some", 4]);
+    deepStrictEqual(variant(Some(2).andThen(() => None())), ["None"]);
+    deepStrictEqual(variant(None<number>().andThen((x) => Some(x * 2))), [
+      "None",
+    ]);
+  },
+  "filter": ({ Some, None }) => {
+    deepStrictEqual(variant(Some(4).filter((x) => x % 2 == 0)), ["Some", 4]);
+    deepStrictEqual(variant(Some(3).filter((x) => x % 2 == 0)), ["None"]);
+    deepStrictEqual(variant(None<number>().filter(() => true)), ["None"]);
+  },
+  "or and orElse": ({ Some, None }) => {
+    deepStrictEqual(variant(Some(1).or(Some(2))), ["Some", 1]);
+    deepStrictEqual(variant(None().or(Some(2))), ["Some", 2]);
+    deepStrictEqual(variant(None().or(None())), ["None"]);
+    deepStrictEqual(variant(Some(1).orElse(() => Some(2))), ["Some", 1]);
+    deepStrictEqual(variant(None().orElse(() => Some(2))), ["Some", 2]);
+  },
+  "xor": ({ Some, None }) => {
+    deepStrictEqual(variant(Some(1).xor(None())), ["Some", 1]);
+    deepStrictEqual(variant(None().xor(Some(2))), ["Some", 2]);
+    deepStrictEqual(variant(Some(1).xor(Some(2))), ["None"]);
+    deepStrictEqual(variant(None().xor(None())), ["None"]);
+  },
+  "insert": ({ None }) => {
+    const x = None<number>();
+    strictEqual(x.insert(1), 1);
+    deepStrictEqual(variant(x), ["Some", 1]);
+    strictEqual(x.insert(2), 2);
+    deepStrictEqual(variant(x), ["Some", 2]);
+  },
+  "getOrInsert and getOrInsertWith": ({ Some, None }) => {
+    const x = None<number>();
+    const y = Some(1);
+    const z = None<number>();
+    strictEqual(x.getOrInsert(5), 5);
+    deepStrictEqual(variant(x), ["Some", 5]);
+    strictEqual(y.getOrInsert(5), 1);
+    deepStrictEqual(variant(y), ["Some", 1]);
+    strictEqual(z.getOrInsertWith(() => 5), 5);
+    deepStrictEqual(variant(z), ["Some", 5]);
+    strictEqual(y.getOrInsertWith(() => 5), 1);
+  },
+  "getOrInsertDefault": ({ Some, None }) => {
+    const x = None<number[]>();
+    x.getOrInsertDefault(Array).push(1);
+    deepStrictEqual(variant(x), ["Some", [1]]);
+    strictEqual(Some(1).getOrInsertDefault(Number), 1);
+  },
+  "take": ({ Some, None }) => {
+    const x = Some(2);
+    const y = None();
+    deepStrictEqual(variant(x.take()), ["Some", 2]);
+    deepStrictEqual(variant(x), ["None"]);
+    deepStrictEqual(variant(y.take()), ["None"]);
+    deepStrictEqual(variant(y), ["None"]);
+  },
+  "takeIf": ({ Some, None }) => {
+    const x = Some(42);
+    const y = Some(43);
+    deepStrictEqual(variant(x.takeIf((v) => v == 42)), ["Some", 42]);
+    deepStrictEqual(variant(x), ["None"]);
+    deepStrictEqual(variant(y.takeIf((v) => v == 42)), ["None"]);
+    deepStrictEqual(variant(y), ["Some", 43]);
+    deepStrictEqual(variant(None<number>().takeIf(() => true)), ["None"]);
+  },
+  "replace": ({ Some, None }) => {
+    const x = Some(2);
+    const y = None<number>();
+    deepStrictEqual(variant(x.replace(5)), ["Some", 2]);
+    deepStrictEqual(variant(x), ["Some", 5]);
+    deepStrictEqual(variant(y.replace(3)), ["None"]);
+    deepStrictEqual(variant(y), ["Some", 3]);
+  },
+  "zip and zipWith": ({ Some, None }) => {
+    deepStrictEqual(variant(Some(1).zip(Some("a"))), ["Some", [1, "a"]]);
+    deepStrictEqual(variant(Some(1).zip(None())), ["None"]);
+    deepStrictEqual(variant(None().zip(Some(1))), ["None"]);
+    deepStrictEqual(variant(Some(1).zipWith(Some(2), (a, b) => a + b)), [
+      "Some",
+      3,
+    ]);
+    deepStrictEqual(
+      variant(Some(1).zipWith(None<number>(), (a, b) => a + b)),
+      ["None"],
+    );
+    deepStrictEqual(
+      variant(None<number>().zipWith(Some(2), (a, b) => a + b)),
+      ["None"],
+    );
+  },
+  "unzip": ({ Some, None }) => {
+    const [a, b] = Some<[number, string]>([1, "a"]).unzip();
+    const [c, d] = None<[number, string]>().unzip();
+    deepStrictEqual([a, b, c, d].map(variant), [
+      ["Some", 1],
+      ["Some", "a"],
+      ["None"],
+      ["None"],
+    ]);
+  },
+  "copied and cloned": ({ Some, None }) => {
+    const point = { x: 1, tags: ["a"] };
+    const copy = Some(point).copied().unwrap();
+    const clone = Some(point).cloned().unwrap();
+    deepStrictEqual(copy, point);
+    strictEqual(copy == point, false);
+    strictEqual(copy.tags, point.tags);
+    deepStrictEqual(clone, point);
+    strictEqual(clone == point, false);
+    strictEqual(clone.tags == point.tags, false);
+    strictEqual(Some(new Map([[1, 2]])).copied().unwrap().get(1), 2);
+    throws(() => Some(Promise.resolve(1)).copied(), PanicError);
+    deepStrictEqual(variant(None().copied()), ["None"]);
+    deepStrictEqual(variant(None().cloned()), ["None"]);
+  },
+  "transpose": ({ Some, None }) => {
+    const ok: Result<Option<number>, string> = Some<Result<number, string>>(
+      Ok(5),
+    ).transpose();
+    const err = Some<Result<number, string>>(Err("e")).transpose();
+    const none = None<Result<number, string>>().transpose();
+    deepStrictEqual(variant(ok.unwrap()), ["Some", 5]);
+    strictEqual(err.unwrapErr(), "e");
+    deepStrictEqual(variant(none.unwrap()), ["None"]);
+  },
+  "flatten": ({ Some, None }) => {
+    deepStrictEqual(variant(Some(Some(6)).flatten()), ["Some", 6]);
+    deepStrictEqual(variant(Some(None<number>()).flatten()), ["None"]);
+    deepStrictEqual(variant(None<Option<number>>().flatten()), ["None"]);
+    deepStrictEqual(variant(Some(Some(Some(6))).flatten().flatten()), [
+      "Some",
+      6,
+    ]);
+  },
+  "toJSON is tagged": ({ Some, None }) => {
+    strictEqual(JSON.stringify(Some(1)), '{"Some":1}');
+    strictEqual(JSON.stringify({ x: None() }), '{"x":{"None":null}}');
+    strictEqual(JSON.stringify(Some(Some(null))), '{"Some":{"Some":null}}');
+  },
+  "toString formats like debug": ({ Some, None }) => {
+    strictEqual(`${Some("a")}`, 'Some("a")');
+    strictEqual(`${Some({ a: 1 })}`, "Some({ a: 1 })");
+    strictEqual(`${None()}`, "None");
+  },
+  "inspect hooks format like debug": ({ Some, None }) => {
+    strictEqual(Deno.inspect(Some([1])), "Some([ 1 ])");
+    strictEqual(Deno.inspect(None()), "None");
+    strictEqual(Deno.inspect({ a: Some("a") }), '{ a: Some("a") }');
+  },
+};
+
+const implementations: Record<string, Constructors> = {
+  "Option class": { Some, None },
+  "expensive Option": expensive,
+};
+
+for (const [name, impl] of Object.entries(implementations)) {
+  Deno.test(`${name} conformance`, async (t) => {
+    for (const [check, f] of Object.entries(checks)) {
+      await t.step(check, () => f(impl));
+    }
+  });
+}
@@ -0,0 +1,88 @@
+import { debug } from "./debug.ts";
+import { Iter } from "./iter.ts";
+
+/** An error adding context to the error that caused it, its `cause`, like
+ * anyhow's `Context` in Rust.
+ *
+ * It is what `Result.context`, `Result.withContext` and their `Option`
+ * counterparts wrap errors in, the chain of causes telling both what went
+ * wrong and what was being done when it did.
+ *
+ * ```ts
+ * function readConfig(path: string): Result<string, ContextError> {
+ *    return resultify(Deno.readTextFileSync)(path)
+ *       .withContext(() => `reading ${path}`);
+ * }
+ *
+ * let config = readConfig("config.toml").context("loading the config");
+ * console.log(report(config.unwrapErr())); // loading the config
+ *                                          //
+ *                                          // Caused by:
+ *                                          //     0: reading config.toml
+ *                                          //     1: NotFound: No such file or directory (os error 2): readfile 'config.toml'
+ * ```
+ */
+export class ContextError extends Error {
+  override name = "ContextError";
+
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+  }
+
+  /** Returns an iterator over this error and its causes, from the outermost
+   * context to the root cause.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let error = Err("not found").context("reading config").unwrapErr();
+   * console.log(error.chain().count()); // 2
+   * console.log(error.chain().last().contains("not found")); // true
+   * ```
+   */
+  chain(this: ContextError): Iter<unknown> {
+    return chain(this);
+  }
+}
+
+function chain(error: unknown): Iter<unknown> {
+  return Iter.from(function* (error: unknown) {
+    const seen = new Set<unknown>();
+    while (!seen.has(error)) {
+      yield error;
+      seen.add(error);
+      if (!(error instanceof Error && "cause" in error)) return;
+      error = error.cause;
+    }
+  }(error));
+}
+
+/** Formats `error` and the chain of its causes, one per line, like anyhow
+ * prints errors.
+ *
+ * # Examples
+ *
+ * ```ts
+ * let error = Err(new Error("boom"))
+ *    .context("parsing settings")
+ *    .context("loading config")
+ *    .unwrapErr();
+ * console.log(report(error)); // loading config
+ *                             //
+ *                             // Caused by:
+ *                             //     0: parsing settings
+ *                             //     1: Error: boom
+ * ```
+ */
+export function report(error: unknown): string {
+  const [head, ...causes] = chain(error).map(describe).collect();
+  if (causes.length == 0) return head;
+  const lines = causes.map((cause, i) => `    ${i}: ${cause}`);
+  return `${head}\n\nCaused by:\n${lines.join("\n")}`;
+}
+
+function describe(error: unknown): string {
+  if (error instanceof ContextError) return error.message;
+  if (typeof error == "string") return error;
+  return debug(error);
+}
@@ -0,0 +1,84 @@
+import { deepStrictEqual, strictEqual } from "node:assert/strict";
+import { assertType, IsExact } from "./_test_util.ts";
+import { ContextError, report } from "./context.ts";
+import { None, Some } from "./option.ts";
+import { Err, Ok, Result } from "./result.ts";
+
+Deno.test("context", async (t) => {
+  await t.step("wraps the error in a ContextError", () => {
+    const x: Result<number, string> = Err("not found");
+    const y = x.context("reading config");
+    assertType<IsExact<typeof y, Result<number, ContextError>>>(true);
+    const error = y.unwrapErr();
+    strictEqual(error instanceof ContextError, true);
+    strictEqual(error.name, "ContextError");
+    strictEqual(error.message, "reading config");
+    strictEqual(error.cause, "not found");
+  });
+
+  await t.step("leaves an Ok untouched", () => {
+    deepStrictEqual(Ok(2).context("reading config"), Ok(2));
+  });
+
+  await t.step("withContext is lazy", () => {
+    let calls = 0;
+    const f = () => `reading ${++calls}`;
+    deepStrictEqual(Ok(2).withContext(f), Ok(2));
+    strictEqual(calls, 0);
+    strictEqual(
+      Err("not found").withContext(f).unwrapErr().message,
+      "reading 1",
+    );
+  });
+
+  await t.step("converts None to a ContextError", () => {
+    const error = None().context("no user").unwrapErr();
+    strictEqual(error.message, "no user");
+    strictEqual(error.cause, undefined);
+    deepStrictEqual(Some(1).withContext(() => "no user"), Ok(1));
+  });
+});
+
+Deno.test("chain", async (t) => {
+  await t.step("iterates from the outermost context to the root cause", () => {
+    const root = new Error("boom", { cause: "disk full" });
+    const error = Err(root)
+      .context("parsing settings")
+      .context("loading config")
+      .unwrapErr();
+    deepStrictEqual(
+      error.chain().map((e) => e instanceof Error ? e.message : e).collect(),
+      ["loading config", "parsing settings", "boom", "disk full"],
+    );
+  });
+
+  await t.step("stops on cycles", () => {
+    const error = new ContextError("outer");
+    const inner = new ContextError("inner", { cause: error });
+    error.cause = inner;
+    strictEqual(error.chain().count(), 2);
+  });
+});
+
+Deno.test("report", async (t) => {
+  await t.step("prints the chain of causes", () => {
+    const error = Err(new Error("boom"))
+      .context("parsing settings")
+      .context("loading config")
+      .unwrapErr();
+    strictEqual(
+      report(error),
+      "loading config\n\nCaused by:\n    0: parsing settings\n    1: Error: boom",
+    );
+  });
+
+  await t.step("prints errors without causes alone", () => {
+    strictEqual(report(new ContextError("loading config")), "loading config");
+    strictEqual(
+      report(new RangeError("out of bounds")),
+      "RangeError: out of bounds",
+    );
+    strictEqual(report("not found"), "not found");
+    strictEqual(report({ code: 1 }), "{ code: 1 }");
+  });
+});
@@ -0,0 +1,136 @@
+/** Key of the `Debug` protocol method, see `Debug`. */
+export const Debug: unique symbol = Symbol("Debug");
+
+/** Debug formatting protocol.
+ *
+ * Classes implement it to customise how `debug` (and thus `console.log`,
+ * `toString` and panic messages of `Option` and `Result`) prints their
+ * instances. The method receives a function formatting nested values with
+ * the current depth limit.
+ *
+ * ```ts
+ * class Secret<T> implements Debug {
+ *    constructor(public value: T) {}
+ *
+ *    [Debug](): string {
+ *       return "Secret(***)";
+ *    }
+ * }
+ *
+ * console.log(debug(Some(new Secret("hunter2")))); // Some(Secret(***))
+ * ```
+ */
+export interface Debug {
+  [Debug](format: (value: unknown) => string): string;
+}
+
+/** Options of `debug`. */
+export interface DebugOptions {
+  /** How many levels of nested objects are printed, deeper ones being
+   * abbreviated to `[Object]`, `[Array]`... Defaults to `4`.
+   */
+  depth?: number;
+}
+
+/** Key of the hook `console.log` and `Deno.inspect` use to print objects. */
+export const denoCustomInspect = Symbol.for("Deno.customInspect");
+
+/** Key of the hook `console.log` and `util.inspect` use to print objects in
+ * Node.js.
+ */
+export const nodeCustomInspect = Symbol.for("nodejs.util.inspect.custom");
+
+function implementsDebug(value: object): value is Debug {
+  return typeof (value as Partial<Debug>)[Debug] == "function";
+}
+
+/** Returns the debug representation of `value`, like Rust's `{:?}`.
+ *
+ * Strings are quoted, `Option`s, `Result`s and other objects implementing
+ * `Debug` print themselves, other objects are printed like `Deno.inspect`
+ * does, down to `options.depth` levels and on several lines if they are too
+ * long.
+ *
+ * # Examples
+ *
+ * ```ts
+ * console.log(debug(Some({ a: 1 }))); // Some({ a: 1 })
+ * console.log(debug(Err(new Error("boom")))); // Err(Error: boom)
+ * console.log(debug(Ok(["a", "b"]))); // Ok([ "a", "b" ])
+ * console.log(debug({ a: { b: { c: 1 } } }, { depth: 1 })); // { a: { b: [Object] } }
+ * ```
+ */
+export function debug(value: unknown, options: DebugOptions = {}): string {
+  return format(value, options.depth ?? 4, new Set());
+}
+
+function format(value: unknown, depth: number, parents: Set<object>): string {
+  switch (typeof value) {
+    case "string":
+      return JSON.stringify(value);
+    case "bigint":
+      return `${value}n`;
+    case "symbol":
+      return value.toString();
+    case "number":
+      return Object.is(value, -0) ? "-0" : String(value);
+    case "function":
+      return value.name
+        ? `[Function: ${value.name}]`
+        : "[Function (anonymous)]";
+    case "object":
+      if (value === null) return "null";
+      if (parents.has(value)) return "[Circular]";
+      parents.add(value);
+      try {
+        return formatObject(value, depth, parents);
+      } finally {
+        parents.delete(value);
+      }
+  }
+  return String(value);
+}
+
+function formatObject(
+  value: object,
+  depth: number,
+  parents: Set<object>,
+): string {
+  if (implementsDebug(value)) {
+    return value[Debug]((nested) => format(nested, depth, parents));
+  }
+  if (value instanceof Error) return `${value.name}: ${value.message}`;
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? "Invalid Date" : value.toISOString();
+  }
+  if (value instanceof RegExp) return String(value);
+
+  const name = Object.getPrototypeOf(value)?.constructor?.name ?? "";
+  if (depth < 0) return `[${name || "Object"}]`;
+  const nested = (nested: unknown) => format(nested, depth - 1, parents);
+
+  if (Array.isArray(value)) return list("[", value.map(nested), "]");
+  if (value instanceof Map) {
+    const entries = [...value].map(([key, v]) =>
+      `${nested(key)} => ${nested(v)}`
+    );
+    return list(`Map(${value.size}) {`, entries, "}");
+  }
+  if (value instanceof Set) {
+    return list(`Set(${value.size}) {`, [...value].map(nested), "}");
+  }
+  const fields = Object.entries(value).map(([key, v]) =>
+    `${/^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key)}: ${
+      nested(v)
+    }`
+  );
+  return list(name && name != "Object" ? `${name} {` : "{", fields, "}");
+}
+
+function list(open: string, items: string[], close: string): string {
+  if (items.length == 0) return `${open}${close}`;
+  const line = `${open} ${items.join(", ")} ${close}`;
+  if (line.length <= 72 && !line.includes("\n")) return line;
+  const indented = items.map((item) => `  ${item.replaceAll("\n", "\n  ")},`);
+  return `${open}\n${indented.join("\n")}\n${close}`;
+}
@@ -0,0 +1,93 @@
+import { strictEqual } from "node:assert/strict";
+import { Debug, debug } from "./debug.ts";
+import { None, Some } from "./option.ts";
+import { catchUnwind, Err, Ok } from "./result.ts";
+
+class Secret<T> implements Debug {
+  constructor(public value: T) {}
+
+  [Debug](): string {
+    return "Secret(***)";
+  }
+}
+
+Deno.test("debug", async (t) => {
+  await t.step("formats primitives", () => {
+    strictEqual(debug('a"b'), '"a\\"b"');
+    strictEqual(debug(1n), "1n");
+    strictEqual(debug(-0), "-0");
+    strictEqual(debug(undefined), "undefined");
+    strictEqual(debug(null), "null");
+    strictEqual(debug(Symbol("s")), "Symbol(s)");
+    strictEqual(debug(function named() {}), "[Function: named]");
+  });
+
+  await t.step("formats Options and Results", () => {
+    strictEqual(debug(Some({ a: 1 })), "Some({ a: 1 })");
+    strictEqual(debug(None()), "None");
+    strictEqual(debug(Ok(["a", "b"])), 'Ok([ "a", "b" ])');
+    strictEqual(debug(Err(new Error("boom"))), "Err(Error: boom)");
+    strictEqual(debug(Ok(Some(None()))), "Ok(Some(None))");
+  });
+
+  await t.step("formats objects", () => {
+    class Point {
+      constructor(public x: number, public y: number) {}
+    }
+    strictEqual(debug(new Point(1, 2)), "Point { x: 1, y: 2 }");
+    strictEqual(debug({ "a-b": 1 }), '{ "a-b": 1 }');
+    strictEqual(debug(new Map([["a", 1]])), 'Map(1) { "a" => 1 }');
+    strictEqual(debug(new Set([1])), "Set(1) { 1 }");
+    strictEqual(debug(new Date(0)), "1970-01-01T00:00:00.000Z");
+    strictEqual(debug(/a+/g), "/a+/g");
+    strictEqual(debug([]), "[]");
+  });
+
+  await t.step("limits the depth", () => {
+    strictEqual(
+      debug({ a: { b: { c: 1 } } }, { depth: 1 }),
+      "{ a: { b: [Object] } }",
+    );
+    strictEqual(debug(Some([[1]]), { depth: 0 }), "Some([ [Array] ])");
+  });
+
+  await t.step("marks circular references", () => {
+    const a: { self?: unknown } = {};
+    a.self = Some(a);
+    strictEqual(debug(a), "{ self: Some([Circular]) }");
+    strictEqual(
+      debug([a, a]),
+      "[ { self: Some([Circular]) }, { self: Some([Circular]) } ]",
+    );
+  });
+
+  await t.step("breaks long lines", () => {
+    const long = "x".repeat(40);
+    strictEqual(
+      debug(Some({ a: long, b: long })),
+      `Some({\n  a: "${long}",\n  b: "${long}",\n})`,
+    );
+  });
+
+  await t.step("uses Debug", () => {
+    strictEqual(debug(Some(new Secret("hunter2"))), "Some(Secret(***))");
+  });
+});
+
+Deno.test("toString and inspect use the debug representation", () => {
+  strictEqual(`${Some({ a: 1 })}`, "Some({ a: 1 })");
+  strictEqual(String(Err(new Error("boom"))), "Err(Error: boom)");
+  strictEqual(Deno.inspect(Some({ a: 1 })), "Some({ a: 1 })");
+  strictEqual(Deno.inspect({ x: Ok(1) }), "{ x: Ok(1) }");
+});
+
+Deno.test("panic messages use the debug representation", () => {
+  strictEqual(
+    catchUnwind(() => Err({ code: 1 }).unwrap()).unwrapErr().message,
+    "Thread panicked at 'called `Result.unwrap()` on an `Err` value: { code: 1 }'",
+  );
+  strictEqual(
+    catchUnwind(() => Ok("a").expectErr("msg")).unwrapErr().message,
+    `Thread panicked at 'msg: "a"'`,
+  );
+});
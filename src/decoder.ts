@@ -0,0 +1,303 @@
+import { debug } from "./debug.ts";
+import { None, Option, Some } from "./option.ts";
+import { Result } from "./result.ts";
+import { Invalid, Valid, Validation } from "./validation.ts";
+
+/** Location of a value in the decoded data, as a list of object keys and
+ * array indices.
+ */
+export type DecodePath = (string | number)[];
+
+/** A single decoding failure, with where and why it happened. */
+export interface DecodeIssue {
+  path: DecodePath;
+  message: string;
+}
+
+/** The error of `Decoder.decode`, holding every issue that was found. */
+export class DecodeError extends Error {
+  override name = "DecodeError";
+
+  constructor(public readonly issues: DecodeIssue[]) {
+    super(
+      issues.map(({ path, message }) => `${formatPath(path)}: ${message}`)
+        .join("\n"),
+    );
+  }
+}
+
+type DecodedType<D> = D extends Decoder<infer T> ? T : never;
+
+/** Decoding of `unknown` data, like parsed JSON, into typed values.
+ *
+ * A `Decoder<T>` checks that a value is a `T` and returns it as a
+ * `Result<T, DecodeError>` instead of throwing. Decoders are combined with
+ * `array`, `object`, `optional`, `union`... and accumulate the errors of
+ * every field and element, each one carrying the path where it happened.
+ *
+ * ```ts
+ * let user = object({
+ *    name: string(),
+ *    age: refine(number(), (age) => age >= 0, "expected a positive number"),
+ *    nickname: optional(string()),
+ *    role: literal("admin", "user"),
+ * }); // Decoder<{ name: string; age: number; nickname: Option<string>; role: "admin" | "user" }>
+ *
+ * let bob = user.decode(JSON.parse('{"name":"Bob","age":32,"role":"user"}'));
+ * console.log(bob.unwrap().nickname.isNone()); // true
+ *
+ * let invalid = user.decode({ name: 3, age: -1, role: "admin" });
+ * console.log(invalid.unwrapErr().message); // $.name: expected string, got number
+ *                                           // $.age: expected a positive number
+ * ```
+ */
+export class Decoder<T> {
+  protected constructor(
+    private decodeAt: (
+      value: unknown,
+      path: DecodePath,
+    ) => Validation<T, DecodeIssue>,
+  ) {}
+
+  /** Decodes strings. */
+  static string(): Decoder<string> {
+    return Decoder.primitive(
+      "string",
+      (value): value is string => typeof value == "string",
+    );
+  }
+
+  /** Decodes numbers, `NaN` excluded. */
+  static number(): Decoder<number> {
+    return Decoder.refine(
+      Decoder.primitive(
+        "number",
+        (value): value is number => typeof value == "number",
+      ),
+      (value) => !Number.isNaN(value),
+      "expected number, got NaN",
+    );
+  }
+
+  /** Decodes booleans. */
+  static boolean(): Decoder<boolean> {
+    return Decoder.primitive(
+      "boolean",
+      (value): value is boolean => typeof value == "boolean",
+    );
+  }
+
+  private static primitive<T>(
+    type: string,
+    is: (value: unknown) => value is T,
+  ): Decoder<T> {
+    return new Decoder((value, path) => {
+      if (is(value)) return Valid(value);
+      return Invalid({
+        path,
+        message: `expected ${type}, got ${describe(value)}`,
+      });
+    });
+  }
+
+  /** Decodes one of the given primitive values.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let method = literal("GET", "POST"); // Decoder<"GET" | "POST">
+   * console.log(method.decode("GET").contains("GET")); // true
+   * console.log(method.decode("PUT").unwrapErr().message); // $: expected "GET" | "POST", got "PUT"
+   * ```
+   */
+  static literal<L extends (string | number | boolean | null)[]>(
+    ...literals: L
+  ): Decoder<L[number]> {
+    return new Decoder((value, path) => {
+      if (literals.includes(value as L[number])) {
+        return Valid(value as L[number]);
+      }
+      const expected = literals.map((literal) => debug(literal));
+      const actual = typeof value == "object" ? describe(value) : debug(value);
+      return Invalid({
+        path,
+        message: `expected ${expected.join(" | ")}, got ${actual}`,
+      });
+    });
+  }
+
+  /** Decodes arrays whose elements are decoded by `element`.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let x = array(number());
+   * console.log(x.decode([1, 2]).unwrap()); // [ 1, 2 ]
+   * console.log(x.decode([1, "2", "3"]).unwrapErr().message); // $[1]: expected number, got string
+   *                                                           // $[2]: expected number, got string
+   * ```
+   */
+  static array<T>(element: Decoder<T>): Decoder<T[]> {
+    return new Decoder((value, path) => {
+      if (!Array.isArray(value)) {
+        return Invalid({
+          path,
+          message: `expected array, got ${describe(value)}`,
+        });
+      }
+      return Validation.collect(
+        value.map((item, i) => element.decodeAt(item, [...path, i])),
+      );
+    });
+  }
+
+  /** Decodes objects with the fields described by `shape`, each one decoded
+   * by its decoder. Other fields are ignored.
+   *
+   * A missing field is decoded as `undefined`, which only `optional`
+   * accepts.
+   */
+  static object<S extends Record<string, Decoder<unknown>>>(
+    shape: S,
+  ): Decoder<{ [K in keyof S]: DecodedType<S[K]> }> {
+    return new Decoder((value, path) => {
+      if (typeof value != "object" || !value || Array.isArray(value)) {
+        return Invalid({
+          path,
+          message: `expected object, got ${describe(value)}`,
+        });
+      }
+      const fields = Object.entries(shape).map(([key, decoder]) => {
+        const field = (value as Record<string, unknown>)[key];
+        return decoder.decodeAt(field, [...path, key])
+          .map((decoded) => [key, decoded] as const);
+      });
+      return Validation.collect(fields).map((entries) =>
+        Object.fromEntries(entries) as { [K in keyof S]: DecodedType<S[K]> }
+      );
+    });
+  }
+
+  /** Decodes `null` and `undefined` as `None`, and any other value with
+   * `decoder` into a `Some`.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let x = optional(string());
+   * console.log(x.decode(null).unwrap().isNone()); // true
+   * console.log(x.decode("foo").unwrap().contains("foo")); // true
+   * ```
+   */
+  static optional<T>(decoder: Decoder<T>): Decoder<Option<T>> {
+    return new Decoder<Option<T>>((value, path) => {
+      if (value == undefined) return Valid(None());
+      return decoder.decodeAt(value, path).map(Some);
+    });
+  }
+
+  /** Decodes values with the first of `decoders` that succeeds, reporting
+   * the errors of all of them if none does.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let id = union(string(), number()); // Decoder<string | number>
+   * console.log(id.decode(2).contains(2)); // true
+   * console.log(id.decode(true).unwrapErr().message); // $: expected string, got boolean
+   *                                                   // $: expected number, got boolean
+   * ```
+   */
+  static union<D extends [Decoder<unknown>, ...Decoder<unknown>[]]>(
+    ...decoders: D
+  ): Decoder<DecodedType<D[number]>> {
+    return new Decoder((value, path) => {
+      const issues: DecodeIssue[] = [];
+      for (const decoder of decoders) {
+        const decoded = decoder.decodeAt(value, path).toResult();
+        if (decoded.isOk()) {
+          return Valid(decoded.unwrap() as DecodedType<D[number]>);
+        }
+        issues.push(...decoded.unwrapErr());
+      }
+      const [issue, ...others] = issues;
+      return Invalid(issue, ...others);
+    });
+  }
+
+  /** Decodes values with `decoder`, then fails with `message` if
+   * `predicate` returns `false` for the decoded value.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let port = refine(number(), Number.isInteger, "expected an integer");
+   * console.log(port.decode(8080).contains(8080)); // true
+   * console.log(port.decode(80.8).unwrapErr().message); // $: expected an integer
+   * ```
+   */
+  static refine<T>(
+    decoder: Decoder<T>,
+    predicate: (value: T) => boolean,
+    message: string,
+  ): Decoder<T> {
+    return new Decoder((value, path) => {
+      const decoded = decoder.decodeAt(value, path);
+      return decoded.toResult().mapOr(
+        decoded,
+        (value) => predicate(value) ? decoded : Invalid({ path, message }),
+      );
+    });
+  }
+
+  /** Decodes `value`, returning `Ok` of the decoded value, or `Err` of a
+   * `DecodeError` holding every issue that was found.
+   */
+  decode(this: Decoder<T>, value: unknown): Result<T, DecodeError> {
+    return this.decodeAt(value, []).toResult().mapErr((issues) =>
+      new DecodeError(issues)
+    );
+  }
+
+  /** Maps a `Decoder<T>` to `Decoder<U>` by applying a function to the
+   * decoded values.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let date = string().map((s) => new Date(s));
+   * console.log(date.decode("1970-01-01").unwrap().getTime()); // 0
+   * ```
+   */
+  map<U>(this: Decoder<T>, f: (value: T) => U): Decoder<U> {
+    return new Decoder((value, path) => this.decodeAt(value, path).map(f));
+  }
+}
+
+export const {
+  string,
+  number,
+  boolean,
+  literal,
+  array,
+  object,
+  optional,
+  union,
+  refine,
+} = Decoder;
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function formatPath(path: DecodePath): string {
+  return path.reduce<string>(
+    (formatted, segment) =>
+      typeof segment == "number"
+        ? `${formatted}[${segment}]`
+        : `${formatted}.${segment}`,
+    "$",
+  );
+}
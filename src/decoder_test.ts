@@ -0,0 +1,185 @@
+import { deepStrictEqual, strictEqual } from "node:assert/strict";
+import { assertType, IsExact } from "./_test_util.ts";
+import {
+  array,
+  boolean,
+  DecodeError,
+  Decoder,
+  literal,
+  number,
+  object,
+  optional,
+  refine,
+  string,
+  union,
+} from "./decoder.ts";
+import { None, Option, Some } from "./option.ts";
+import { Err, Ok } from "./result.ts";
+
+function issues<T>(decoder: Decoder<T>, value: unknown) {
+  return decoder.decode(value).unwrapErr().issues;
+}
+
+Deno.test("primitives", async (t) => {
+  await t.step("decode values of their type", () => {
+    deepStrictEqual(string().decode("foo"), Ok("foo"));
+    deepStrictEqual(number().decode(2), Ok(2));
+    deepStrictEqual(boolean().decode(false), Ok(false));
+  });
+
+  await t.step("reject other values", () => {
+    deepStrictEqual(issues(string(), 1), [
+      { path: [], message: "expected string, got number" },
+    ]);
+    deepStrictEqual(issues(number(), NaN), [
+      { path: [], message: "expected number, got NaN" },
+    ]);
+    deepStrictEqual(issues(boolean(), null), [
+      { path: [], message: "expected boolean, got null" },
+    ]);
+  });
+});
+
+Deno.test("literal", () => {
+  const method = literal("GET", "POST");
+  assertType<IsExact<typeof method, Decoder<"GET" | "POST">>>(true);
+  deepStrictEqual(method.decode("GET"), Ok("GET"));
+  strictEqual(
+    method.decode("PUT").unwrapErr().message,
+    '$: expected "GET" | "POST", got "PUT"',
+  );
+  deepStrictEqual(literal(null, 0).decode(null), Ok(null));
+  strictEqual(
+    literal(1).decode([1]).unwrapErr().message,
+    "$: expected 1, got array",
+  );
+  strictEqual(
+    literal(1, null).decode(1n).unwrapErr().message,
+    "$: expected 1 | null, got 1n",
+  );
+  strictEqual(
+    literal("GET").decode(function get() {}).unwrapErr().message,
+    '$: expected "GET", got [Function: get]',
+  );
+});
+
+Deno.test("array", () => {
+  const x = array(number());
+  deepStrictEqual(x.decode([1, 2]), Ok([1, 2]));
+  deepStrictEqual(x.decode([]), Ok([]));
+  deepStrictEqual(issues(x, [1, "2", "3"]), [
+    { path: [1], message: "expected number, got string" },
+    { path: [2], message: "expected number, got string" },
+  ]);
+  deepStrictEqual(issues(x, { 0: 1 }), [
+    { path: [], message: "expected array, got object" },
+  ]);
+});
+
+Deno.test("object", async (t) => {
+  const user = object({
+    name: string(),
+    age: refine(number(), (age) => age >= 0, "expected a positive number"),
+    nickname: optional(string()),
+    role: literal("admin", "user"),
+  });
+
+  await t.step("infers the decoded type", () => {
+    assertType<
+      IsExact<
+        typeof user,
+        Decoder<{
+          name: string;
+          age: number;
+          nickname: Option<string>;
+          role: "admin" | "user";
+        }>
+      >
+    >(true);
+  });
+
+  await t.step("decodes the fields and ignores the others", () => {
+    deepStrictEqual(
+      user.decode({ name: "Bob", age: 32, role: "user", extra: true }),
+      Ok({ name: "Bob", age: 32, nickname: None(), role: "user" }),
+    );
+  });
+
+  await t.step("accumulates the errors of every field", () => {
+    const error = user.decode({ name: 3, age: -1, role: "admin" })
+      .unwrapErr();
+    strictEqual(error instanceof DecodeError, true);
+    deepStrictEqual(error.issues, [
+      { path: ["name"], message: "expected string, got number" },
+      { path: ["age"], message: "expected a positive number" },
+    ]);
+    strictEqual(
+      error.message,
+      "$.name: expected string, got number\n$.age: expected a positive number",
+    );
+  });
+
+  await t.step("reports missing fields", () => {
+    deepStrictEqual(issues(user, { age: 1, role: "user" }), [
+      { path: ["name"], message: "expected string, got undefined" },
+    ]);
+  });
+
+  await t.step("rejects non objects", () => {
+    for (const value of [null, [], "user"]) {
+      strictEqual(issues(user, value).length, 1);
+    }
+  });
+
+  await t.step("reports nested paths", () => {
+    const team = object({ members: array(object({ name: string() })) });
+    strictEqual(
+      team.decode({ members: [{ name: "Alice" }, { name: 2 }] }).unwrapErr()
+        .message,
+      "$.members[1].name: expected string, got number",
+    );
+  });
+});
+
+Deno.test("optional", () => {
+  const x = optional(string());
+  deepStrictEqual(x.decode(null), Ok(None()));
+  deepStrictEqual(x.decode(undefined), Ok(None()));
+  deepStrictEqual(x.decode("foo"), Ok(Some("foo")));
+  deepStrictEqual(issues(x, 1), [
+    { path: [], message: "expected string, got number" },
+  ]);
+});
+
+Deno.test("union", () => {
+  const id = union(string(), number());
+  assertType<IsExact<typeof id, Decoder<string | number>>>(true);
+  deepStrictEqual(id.decode(2), Ok(2));
+  deepStrictEqual(id.decode("2"), Ok("2"));
+  strictEqual(
+    id.decode(true).unwrapErr().message,
+    "$: expected string, got boolean\n$: expected number, got boolean",
+  );
+});
+
+Deno.test("refine", () => {
+  const port = refine(number(), Number.isInteger, "expected an integer");
+  deepStrictEqual(port.decode(8080), Ok(8080));
+  deepStrictEqual(issues(port, 80.8), [
+    { path: [], message: "expected an integer" },
+  ]);
+  deepStrictEqual(issues(port, "80"), [
+    { path: [], message: "expected number, got string" },
+  ]);
+});
+
+Deno.test("map", () => {
+  const date = string().map((s) => new Date(s));
+  assertType<IsExact<typeof date, Decoder<Date>>>(true);
+  deepStrictEqual(date.decode("1970-01-01"), Ok(new Date(0)));
+  strictEqual(date.decode(0).isErr(), true);
+  deepStrictEqual(
+    Decoder.string().decode(1).mapErr((e) => e.issues.length),
+    Err(1),
+  );
+});
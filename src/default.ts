@@ -0,0 +1,107 @@
+import { debug } from "./debug.ts";
+import { panic } from "./panic.ts";
+
+/** Key of the `Default` protocol method, see `Default`. */
+export const Default: unique symbol = Symbol("Default");
+
+/** Default values protocol, like Rust's `Default` trait.
+ *
+ * Classes implement it with a static method returning their default
+ * instance, the class itself then being the provider passed to
+ * `unwrapOrDefault`, `getOrInsertDefault`... `Option` implements it, its
+ * default being `None`.
+ *
+ * ```ts
+ * class Point {
+ *    constructor(public x: number, public y: number) {}
+ *
+ *    static [Default](): Point {
+ *       return new Point(0, 0);
+ *    }
+ * }
+ *
+ * console.log(None<Point>().unwrapOrDefault(Point)); // Point { x: 0, y: 0 }
+ * ```
+ */
+export interface Default<T> {
+  [Default](): T;
+}
+
+/** The built-in constructors usable as default providers for `T`, whose
+ * default values are `0`, `""`, `false`, `0n`, `[]`, `{}`, an empty `Map`
+ * and an empty `Set`.
+ */
+type BuiltinDefault<T> =
+  | (0 extends T ? NumberConstructor : never)
+  | ("" extends T ? StringConstructor : never)
+  | (false extends T ? BooleanConstructor : never)
+  | (0n extends T ? BigIntConstructor : never)
+  | (never[] extends T ? ArrayConstructor : never)
+  // deno-lint-ignore ban-types
+  | ({} extends T ? ObjectConstructor : never)
+  | (Map<never, never> extends T ? MapConstructor : never)
+  | (Set<never> extends T ? SetConstructor : never);
+
+/** What provides the default value of a `T`: a class implementing `Default`
+ * or a matching built-in constructor like `Number` or `Array`, see
+ * `defaultOf`.
+ */
+export type DefaultProvider<T> = Default<T> | BuiltinDefault<T>;
+
+const builtins = new Map<unknown, () => unknown>([
+  [Number, () => 0],
+  [String, () => ""],
+  [Boolean, () => false],
+  [BigInt, () => 0n],
+  [Array, () => []],
+  [Object, () => ({})],
+  [Map, () => new Map()],
+  [Set, () => new Set()],
+]);
+
+function implementsDefault<T>(
+  provider: DefaultProvider<T>,
+): provider is Default<T> {
+  return typeof (provider as Partial<Default<T>>)[Default] == "function";
+}
+
+/** Returns the default value given by `provider`, a new one on every call.
+ *
+ * # Panics
+ *
+ * Panics if `provider` neither implements `Default` nor is a built-in
+ * constructor with a default, which the types only let through when cast.
+ *
+ * # Examples
+ *
+ * ```ts
+ * console.log(defaultOf(Number)); // 0
+ * console.log(defaultOf(Array)); // []
+ * console.log(defaultOf(Option).isNone()); // true
+ * console.log(defaultOf(defaultWith(() => "anonymous"))); // anonymous
+ * ```
+ */
+export function defaultOf<T>(provider: DefaultProvider<T>): T {
+  if (implementsDefault(provider)) return provider[Default]();
+  const builtin = builtins.get(provider);
+  if (!builtin) {
+    panic(`\`${debug(provider)}\` doesn't provide a default value`);
+  }
+  return builtin() as T;
+}
+
+/** Returns a default provider calling `f`, for types that can't implement
+ * `Default` themselves, like type parameters, interfaces or literal types.
+ *
+ * # Examples
+ *
+ * ```ts
+ * type Level = "debug" | "info" | "error";
+ *
+ * let level: Option<Level> = None();
+ * console.log(level.unwrapOrDefault(defaultWith(() => "info"))); // info
+ * ```
+ */
+export function defaultWith<const T>(f: () => T): Default<T> {
+  return { [Default]: f };
+}
@@ -0,0 +1,91 @@
+import { deepStrictEqual, strictEqual, throws } from "node:assert/strict";
+import { Default, defaultOf, DefaultProvider, defaultWith } from "./default.ts";
+import { None, Option, Some } from "./option.ts";
+import { Err, Ok, Result } from "./result.ts";
+
+class Point {
+  constructor(public x: number, public y: number) {}
+
+  static [Default](): Point {
+    return new Point(0, 0);
+  }
+}
+
+Deno.test("defaultOf", async (t) => {
+  await t.step("returns the defaults of built-in types", () => {
+    strictEqual(defaultOf(Number), 0);
+    strictEqual(defaultOf(String), "");
+    strictEqual(defaultOf(Boolean), false);
+    strictEqual(defaultOf(BigInt), 0n);
+    deepStrictEqual(defaultOf(Array), []);
+    deepStrictEqual(defaultOf(Object), {});
+    deepStrictEqual(defaultOf(Map), new Map());
+    deepStrictEqual(defaultOf(Set), new Set());
+  });
+
+  await t.step("uses Default", () => {
+    deepStrictEqual(defaultOf(Point), new Point(0, 0));
+    deepStrictEqual(defaultOf<Option<number>>(Option), None());
+  });
+
+  await t.step("panics on providers without a default", () => {
+    const provider = Date as unknown as DefaultProvider<Date>;
+    throws(() => defaultOf(provider), {
+      name: "PanicError",
+      payload: "`[Function: Date]` doesn't provide a default value",
+    });
+  });
+
+  await t.step("returns a new value on every call", () => {
+    strictEqual(defaultOf(Array) === defaultOf(Array), false);
+    strictEqual(defaultOf(Point) === defaultOf(Point), false);
+    const x = defaultOf<Option<number>>(Option);
+    x.insert(1);
+    deepStrictEqual(defaultOf<Option<number>>(Option), None());
+  });
+
+  await t.step("defaultWith calls its function", () => {
+    type Level = "debug" | "info" | "error";
+    let calls = 0;
+    const provider = defaultWith<Level>(() => {
+      calls++;
+      return "info";
+    });
+    strictEqual(calls, 0);
+    strictEqual(defaultOf(provider), "info");
+    strictEqual(calls, 1);
+  });
+});
+
+Deno.test("unwrapOrDefault", () => {
+  strictEqual(None<number>().unwrapOrDefault(Number), 0);
+  strictEqual(Some(12).unwrapOrDefault(Number), 12);
+  deepStrictEqual(None<string[]>().unwrapOrDefault(Array), []);
+  deepStrictEqual(None<Point>().unwrapOrDefault(Point), new Point(0, 0));
+
+  const parseYear = (s: string): Result<number, string> =>
+    /^\d+$/.test(s) ? Ok(Number(s)) : Err(`${s} is not a year`);
+  strictEqual(parseYear("1909").unwrapOrDefault(Number), 1909);
+  strictEqual(parseYear("190blarg").unwrapOrDefault(Number), 0);
+  strictEqual(
+    Err<"a" | "b", string>("error").unwrapOrDefault(defaultWith(() => "b")),
+    "b",
+  );
+});
+
+Deno.test("mapOrDefault", () => {
+  strictEqual(Some("hi").mapOrDefault(Number, (s) => s.length), 2);
+  strictEqual(None<string>().mapOrDefault(Number, (s) => s.length), 0);
+  deepStrictEqual(None<string>().mapOrDefault(Array, (s) => [s]), []);
+});
+
+Deno.test("getOrInsertDefault", () => {
+  const x: Option<number[]> = None();
+  x.getOrInsertDefault(Array).push(7);
+  x.getOrInsertDefault(Array).push(8);
+  deepStrictEqual(x, Some([7, 8]));
+
+  const counts = Some(new Map<string, number>());
+  counts.getOrInsertDefault(Map).set("a", 1);
+  deepStrictEqual(counts.unwrap(), new Map([["a", 1]]));
+});
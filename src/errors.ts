@@ -0,0 +1,101 @@
+// deno-lint-ignore no-explicit-any
+type Variants = Record<string, (...args: any[]) => string>;
+
+type VariantUnion<V extends Variants> = {
+  [K in keyof V & string]: EnumError<K, Parameters<V[K]>>;
+}[keyof V & string];
+
+/** An error of an enum defined with `defineErrors`, holding the `kind` of
+ * the variant and the `args` it was built with.
+ */
+export class EnumError<
+  K extends string = string,
+  A extends unknown[] = unknown[],
+> extends Error {
+  override name: string;
+
+  constructor(readonly kind: K, readonly args: A, message: string) {
+    super(message);
+    this.name = kind;
+  }
+}
+
+/** An error enum, as returned by `defineErrors`: a constructor per variant,
+ * plus `format` and `is` helpers.
+ */
+export type ErrorEnum<V extends Variants> =
+  & {
+    readonly [K in keyof V & string]: (
+      ...args: Parameters<V[K]>
+    ) => EnumError<K, Parameters<V[K]>>;
+  }
+  & {
+    /** The variant definitions the enum was built from. */
+    readonly variants: V;
+    /** Returns the message of `error`, as defined by its variant. */
+    format(error: VariantUnion<V>): string;
+    /** Returns `true` if `value` is an error of this enum, of the variant
+     * `kind` if provided.
+     */
+    is(value: unknown): value is VariantUnion<V>;
+    is<K extends keyof V & string>(
+      value: unknown,
+      kind: K,
+    ): value is EnumError<K, Parameters<V[K]>>;
+  };
+
+/** The discriminated union of the errors of an enum defined with
+ * `defineErrors`, discriminated by `kind`.
+ */
+export type ErrorUnion<D extends { variants: Variants }> = VariantUnion<
+  D["variants"]
+>;
+
+/** Defines an error enum from a message function per variant, like Rust's
+ * `thiserror`.
+ *
+ * Each variant gets a constructor taking the arguments of its message
+ * function and returning an `EnumError` whose `kind` is the name of the
+ * variant. `ErrorUnion` gives the union of the variants, to be used as the
+ * error type of `Result`s and handled exhaustively with `Result.matchErr`.
+ *
+ * Variants can't be named `variants`, `format` or `is`.
+ *
+ * ```ts
+ * const AppError = defineErrors({
+ *    NotFound: (id: string) => `user ${id} not found`,
+ *    Timeout: (ms: number) => `timed out after ${ms}ms`,
+ * });
+ * type AppError = ErrorUnion<typeof AppError>;
+ *
+ * function findUser(id: string): Result<User, AppError> {
+ *    return Err(AppError.NotFound(id));
+ * }
+ *
+ * let error = findUser("42").unwrapErr();
+ * console.log(error.message); // user 42 not found
+ * console.log(AppError.is(error, "NotFound")); // true
+ *
+ * let status = findUser("42").map(() => 200).matchErr({
+ *    NotFound: (id) => 404,
+ *    Timeout: (ms) => 504,
+ * });
+ * console.log(status); // 404
+ * ```
+ */
+export function defineErrors<V extends Variants>(variants: V): ErrorEnum<V> {
+  class DefinedError extends EnumError {}
+
+  const constructors = Object.entries(variants).map(([kind, message]) => [
+    kind,
+    (...args: unknown[]) => new DefinedError(kind, args, message(...args)),
+  ]);
+  return {
+    ...Object.fromEntries(constructors),
+    variants,
+    format: (error: EnumError) => variants[error.kind](...error.args),
+    is: (value: unknown, kind?: string) =>
+      value instanceof DefinedError &&
+      (kind == undefined || value.kind == kind),
+  } as ErrorEnum<V>;
+}
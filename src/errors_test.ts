@@ -0,0 +1,74 @@
+import { strictEqual } from "node:assert/strict";
+import { assertType, IsExact } from "./_test_util.ts";
+import { defineErrors, EnumError, ErrorUnion } from "./errors.ts";
+import { Err, Ok, Result } from "./result.ts";
+
+const AppError = defineErrors({
+  NotFound: (id: string) => `user ${id} not found`,
+  Timeout: (ms: number, retries: number) =>
+    `timed out after ${ms}ms and ${retries} retries`,
+});
+type AppError = ErrorUnion<typeof AppError>;
+
+const OtherError = defineErrors({ NotFound: () => "not found" });
+
+Deno.test("defineErrors", async (t) => {
+  await t.step("builds errors of each variant", () => {
+    const error = AppError.Timeout(500, 3);
+    assertType<
+      IsExact<typeof error, EnumError<"Timeout", [ms: number, retries: number]>>
+    >(true);
+    strictEqual(error instanceof Error, true);
+    strictEqual(error.kind, "Timeout");
+    strictEqual(error.name, "Timeout");
+    strictEqual(error.message, "timed out after 500ms and 3 retries");
+    strictEqual(error.args.join(), "500,3");
+  });
+
+  await t.step("ErrorUnion is the union of the variants", () => {
+    assertType<
+      IsExact<
+        AppError,
+        | EnumError<"NotFound", [id: string]>
+        | EnumError<"Timeout", [ms: number, retries: number]>
+      >
+    >(true);
+  });
+
+  await t.step("format returns the message of the variant", () => {
+    strictEqual(AppError.format(AppError.NotFound("42")), "user 42 not found");
+  });
+
+  await t.step("is recognizes the errors of the enum", () => {
+    const error: unknown = AppError.NotFound("42");
+    strictEqual(AppError.is(error), true);
+    strictEqual(AppError.is(error, "NotFound"), true);
+    strictEqual(AppError.is(error, "Timeout"), false);
+    strictEqual(OtherError.is(error), false);
+    strictEqual(AppError.is(OtherError.NotFound()), false);
+    strictEqual(AppError.is(new Error("user 42 not found")), false);
+  });
+});
+
+Deno.test("matchErr", async (t) => {
+  const status = (x: Result<string, AppError>) =>
+    x.map(() => 200).matchErr({
+      NotFound: (id) => id.length,
+      Timeout: (ms, retries) => ms * retries,
+    });
+
+  await t.step("calls the handler of the variant with its arguments", () => {
+    strictEqual(status(Err(AppError.NotFound("42"))), 2);
+    strictEqual(status(Err(AppError.Timeout(500, 3))), 1500);
+  });
+
+  await t.step("returns the Ok value", () => {
+    strictEqual(status(Ok("body")), 200);
+  });
+
+  await t.step("requires a handler per variant", () => {
+    const x: Result<number, AppError> = Ok(1);
+    // @ts-expect-error: the Timeout handler is missing
+    x.matchErr({ NotFound: () => 404 });
+  });
+});
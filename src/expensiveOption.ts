@@ -1,5 +1,13 @@
+import { AsyncResult } from "./asyncResult.ts";
+import { Eq, equals, Ord, Ordering, partialCompare } from "./cmp.ts";
+import { ContextError } from "./context.ts";
+import { Debug, debug, denoCustomInspect, nodeCustomInspect } from "./debug.ts";
+import { defaultOf, DefaultProvider } from "./default.ts";
+import { Iter } from "./iter.ts";
+import type { MatchArm } from "./match.ts";
+import type { OptionJSON } from "./option.ts";
 import { panic } from "./panic.ts";
-import { Err, Ok, Result } from "./result.ts";
+import { copy, Err, Ok, Result } from "./result.ts";
 
 /** Optional values.
 *
@@ -52,6 +60,24 @@ export interface Option<T> {
    */
   isSome(this: Option<T>): boolean;
 
+  /** Returns `true` if the option is a `Some` and the value inside of it
+   * matches a predicate.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let x: Option<number> = Some(2);
+   * console.log(x.isSomeAnd((x) => x > 1)); // true
+   *
+   * let x: Option<number> = Some(0);
+   * console.log(x.isSomeAnd((x) => x > 1)); // false
+   *
+   * let x: Option<number> = None();
+   * console.log(x.isSomeAnd((x) => x > 1)); // false
+   * ```
+   */
+  isSomeAnd(this: Option<T>, f: (arg: T) => boolean): boolean;
+
   /** Returns `true` if the option is a `None` value.
    *
    * # Examples
@@ -66,8 +92,26 @@ export interface Option<T> {
    */
   isNone(this: Option<T>): boolean;
 
+  /** Returns `true` if the option is a `None` or the value inside of it
+   * matches a predicate.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let x: Option<number> = Some(2);
+   * console.log(x.isNoneOr((x) => x > 1)); // true
+   *
+   * let x: Option<number> = Some(0);
+   * console.log(x.isNoneOr((x) => x > 1)); // false
+   *
+   * let x: Option<number> = None();
+   * console.log(x.isNoneOr((x) => x > 1)); // true
+   * ```
+   */
+  isNoneOr(this: Option<T>, f: (arg: T) => boolean): boolean;
+
   /** Returns `true` if the option is a `Some` value containing the given value.
-   * (checked with the loose equalty operator `==`);
+   * (checked with structural equality, see `equals`);
    *
    *
    * # Examples
@@ -85,6 +129,56 @@ export interface Option<T> {
    */
   contains<U>(this: Option<T>, x: U | T): boolean;
 
+  /** Returns `true` if both options are `None`, or if both are `Some` with
+   * structurally equal values, see `equals`.
+   *
+   * # Examples
+   *
+   * ```ts
+   * console.log(Some([1, 2]).eq(Some([1, 2]))); // true
+   * console.log(Some([1, 2]).eq(Some([2, 1]))); // false
+   * console.log(None().eq(None())); // true
+   * console.log(Some(1).eq(None())); // false
+   * ```
+   */
+  eq(this: Option<T>, other: Option<T>): boolean;
+
+  [Eq](this: Option<T>, other: unknown): boolean;
+
+  /** Compares `self` and `other`, `None` being less than any `Some` and two
+   * `Some`s being ordered by their values, see `compare`.
+   *
+   * # Panics (throws)
+   *
+   * Panics if the contained values cannot be compared, use `partialCmp` to
+   * handle this case.
+   *
+   * # Examples
+   *
+   * ```ts
+   * console.log(None().cmp(Some(0))); // Ordering.Less
+   * console.log(Some(2).cmp(Some(1))); // Ordering.Greater
+   *
+   * let x = [Some(3), None(), Some(1)];
+   * x.sort((a, b) => a.cmp(b)); // [ None, Some(1), Some(3) ]
+   * ```
+   */
+  cmp(this: Option<T>, other: Option<T>): Ordering;
+
+  /** Compares `self` and `other` like `cmp`, returning `None` if the
+   * contained values cannot be compared.
+   *
+   * # Examples
+   *
+   * ```ts
+   * console.log(Some(1).partialCmp(None()).contains(Ordering.Greater)); // true
+   * console.log(Some(NaN).partialCmp(Some(1)).isNone()); // true
+   * ```
+   */
+  partialCmp(this: Option<T>, other: Option<T>): Option<Ordering>;
+
+  [Ord](this: Option<T>, other: unknown): Ordering | undefined;
+
   /** Returns the contained `Some` value.
    *
    * # Panics (throws)
@@ -104,6 +198,27 @@ export interface Option<T> {
    */
   expect(this: Option<T>, msg: string): T;
 
+  /** Consumes `self` while expecting `None` and returning nothing.
+   *
+   * # Panics (throws)
+   *
+   * Panics if the value is a `Some`, with a panic message including the
+   * passed message, and the content of the `Some`.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let squares = new Map<number, number>();
+   * for (let i of [1, 2, 3]) {
+   *    Option.fromNullable(squares.get(i)).expectNone("duplicate key");
+   *    squares.set(i, i * i);
+   * }
+   *
+   * Some(3).expectNone("duplicate key"); // panics with `duplicate key: 3`
+   * ```
+   */
+  expectNone(this: Option<T>, msg: string): void;
+
   /** Returns the contained `Some` value.
    *
    * Because this function may panic, please use `isSome`
@@ -152,6 +267,25 @@ export interface Option<T> {
    */
   unwrapOrElse(this: Option<T>, f: () => T): T;
 
+  /** Returns the contained `Some` value or the default value given by
+   * `provider`, see `defaultOf`.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let x: Option<number> = None();
+   * let y: Option<number> = Some(12);
+   *
+   * console.log(x.unwrapOrDefault(Number)); // 0
+   * console.log(y.unwrapOrDefault(Number)); // 12
+   * console.log(None<string[]>().unwrapOrDefault(Array)); // []
+   * ```
+   */
+  unwrapOrDefault<U extends T>(
+    this: Option<U>,
+    provider: DefaultProvider<U>,
+  ): U;
+
   /** Maps an `Option<T>` to `Option<U>` by applying a function to a contained value.
    *
    * # Examples
@@ -170,6 +304,24 @@ export interface Option<T> {
    */
   map<U>(this: Option<T>, f: (arg: T) => U): Option<U>;
 
+  /** Calls `f` with the contained value if `Some`, then returns the option.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let list = [1, 2, 3];
+   *
+   * // prints "got: 2"
+   * let x = Option.fromNullable(list[1])
+   *    .inspect((x) => console.log(`got: ${x}`))
+   *    .expect("list should be long enough");
+   *
+   * // prints nothing
+   * Option.fromNullable(list[5]).inspect((x) => console.log(`got: ${x}`));
+   * ```
+   */
+  inspect(this: Option<T>, f: (arg: T) => void): Option<T>;
+
   /** Returns the provided default result (if none),
    * or applies a function to the contained value (if any).
    *
@@ -206,6 +358,75 @@ export interface Option<T> {
    */
   mapOrElse<U>(this: Option<T>, defaultValue: () => U, f: (arg: T) => U): U;
 
+  /** Returns the default value given by `provider` (if none), or applies a
+   * function to the contained value (if any).
+   *
+   * # Examples
+   *
+   * ```ts
+   * let x: Option<string> = Some("hi");
+   * let y: Option<string> = None();
+   *
+   * console.log(x.mapOrDefault(Number, (s) => s.length)); // 2
+   * console.log(y.mapOrDefault(Number, (s) => s.length)); // 0
+   * ```
+   */
+  mapOrDefault<U>(
+    this: Option<T>,
+    provider: DefaultProvider<U>,
+    f: (arg: T) => U,
+  ): U;
+
+  /** Calls `arms.Some` with the contained value or `arms.None`, whichever
+   * matches the option, and returns its result.
+   *
+   * Both arms are required, so the match is exhaustive.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let x = Some(3);
+   * console.log(x.match({ Some: (v) => v * 2, None: () => 0 })); // 6
+   *
+   * let y: Option<number> = None();
+   * console.log(y.match({ Some: (v) => v * 2, None: () => 0 })); // 0
+   * ```
+   */
+  match<R>(
+    this: Option<T>,
+    arms: { Some: (value: T) => R; None: () => R },
+  ): R;
+
+  /** Tries each arm in order and returns the result of the first one that
+   * matches.
+   *
+   * The patterns of `Pattern.Some` and `Pattern.None` only match options of
+   * `mod.ts`, arms are built from `Pattern.when` and `Pattern.any` here.
+   *
+   * # Panics
+   *
+   * Panics if no arm matches, end the arms with `Pattern.any()` to avoid it.
+   *
+   * # Examples
+   *
+   * ```ts
+   * function describe(x: Option<number>): string {
+   *    return x.matchWhen(
+   *       Pattern.when((x: Option<number>) => x.isSomeAnd((v) => v > 3))
+   *          .arm((x) => `big ${x.unwrap()}`),
+   *       Pattern.when((x: Option<number>) => x.isSome())
+   *          .arm((x) => `small ${x.unwrap()}`),
+   *       Pattern.any<Option<number>>().arm(() => "nothing"),
+   *    );
+   * }
+   *
+   * console.log(describe(Some(5))); // big 5
+   * console.log(describe(Some(1))); // small 1
+   * console.log(describe(None())); // nothing
+   * ```
+   */
+  matchWhen<R>(this: Option<T>, ...arms: MatchArm<Option<T>, R>[]): R;
+
   /** Transforms the `Option<T>` into a `Result<T, E>`, mapping `Some(v)` to
    * `Ok(v)` and `None` to `Err(err)`.
    *
@@ -240,23 +461,90 @@ export interface Option<T> {
    */
   okOrElse<E>(this: Option<T>, error: () => E): Result<T, E>;
 
-  /** Returns an iterator over the possibly contained value.
+  /** Transforms the `Option<T>` into an `AsyncResult<T, E>`, mapping
+   * `Some(v)` to `Ok(v)` and `None` to `Err` of what `error` returns or
+   * resolves to, `error` being only called on a `None`. Like with an async
+   * function, `error` throwing rejects the `AsyncResult`.
+   *
+   * # Examples
+   *
+   * ```ts
+   * async function describeMissing(key: string): Promise<string> {
+   *    return `no value for ${key}`;
+   * }
+   *
+   * let x = Some("foo");
+   * console.log(await x.okOrElseAsync(() => describeMissing("x")).unwrap()); // foo
+   *
+   * let y: Option<string> = None();
+   * console.log(await y.okOrElseAsync(() => describeMissing("y")).unwrapErr()); // no value for y
+   * ```
+   */
+  okOrElseAsync<E>(
+    this: Option<T>,
+    error: () => E | PromiseLike<E>,
+  ): AsyncResult<T, E>;
+
+  /** Transforms the `Option<T>` into a `Result<T, ContextError>`, mapping
+   * `Some(v)` to `Ok(v)` and `None` to `Err` of a `ContextError` with the
+   * message `context`.
+   *
+   * Arguments passed to `context` are eagerly evaluated; if you are passing
+   * the result of a function call, it is recommended to use `withContext`,
+   * which is lazily evaluated.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let x: Option<string> = None();
+   * console.log(x.context("missing HOME").unwrapErr().message); // missing HOME
+   * ```
+   */
+  context(this: Option<T>, context: string): Result<T, ContextError>;
+
+  /** Transforms the `Option<T>` into a `Result<T, ContextError>`, mapping
+   * `Some(v)` to `Ok(v)` and `None` to `Err` of a `ContextError` with the
+   * message returned by `f`.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let name = "HOME";
+   * let x: Option<string> = None();
+   * console.log(x.withContext(() => `missing ${name}`).unwrapErr().message); // missing HOME
+   * ```
+   */
+  withContext(this: Option<T>, f: () => string): Result<T, ContextError>;
+
+  /** Returns an `Iter` over the possibly contained value.
    *
    * # Examples
    *
    * ```ts
    * let x = Some(4);
-   * console.log(x.iter().next().value); // 4
+   * console.log(x.iter().next().unwrap()); // 4
    *
    * let y: Option<number> = None();
-   * console.log(y.iter().next().done); // true
+   * console.log(y.iter().next().isNone()); // true
    *
    * for (let value of Some(42)) {
    *    console.log(value); // 42
    * }
    * ```
    */
-  iter(this: Option<T>): Iterable<T>;
+  iter(this: Option<T>): Iter<T>;
+
+  /** Returns an array of the possibly contained value, with one element if
+   * the option is a `Some`, none otherwise. This is Rust's `as_slice`.
+   *
+   * # Examples
+   *
+   * ```ts
+   * console.log(Some(1234).toArray()); // [ 1234 ]
+   * console.log(None().toArray()); // []
+   * ```
+   */
+  toArray(this: Option<T>): T[];
 
   /** Returns `None` if the option is `None`, otherwise returns `optb`.
    *
@@ -460,6 +748,23 @@ export interface Option<T> {
    */
   getOrInsertWith(this: Option<T>, f: () => T): T;
 
+  /** Inserts the default value given by `provider` into the option if it is
+   * `None`, then returns the contained value.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let x: Option<number[]> = None();
+   *
+   * x.getOrInsertDefault(Array).push(7);
+   * console.log(x.unwrap()); // [ 7 ]
+   * ```
+   */
+  getOrInsertDefault<U extends T>(
+    this: Option<U>,
+    provider: DefaultProvider<U>,
+  ): U;
+
   /** Takes the value out of the option, leaving a `None` in its place.
    *
    * # Examples
@@ -478,6 +783,26 @@ export interface Option<T> {
    */
   take(this: Option<T>): Option<T>;
 
+  /** Takes the value out of the option, leaving a `None` in its place, but
+   * only if `predicate` returns `true` for the value. Otherwise, returns
+   * `None` and leaves the option untouched.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let x = Some(42);
+   *
+   * let prev = x.takeIf((v) => v == 42);
+   * console.log(prev.contains(42)); // true
+   * console.log(x.isNone()); // true
+   *
+   * let y = Some(43);
+   * console.log(y.takeIf((v) => v == 42).isNone()); // true
+   * console.log(y.contains(43)); // true
+   * ```
+   */
+  takeIf(this: Option<T>, predicate: (arg: T) => boolean): Option<T>;
+
   /** Replaces the actual value in the option by the value given in parameter,
    * returning the old value if present,
    * leaving a `Some` in its place without deinitializing either one.
@@ -545,6 +870,61 @@ export interface Option<T> {
     f: (lhs: T, rhs: U) => R,
   ): Option<R>;
 
+  /** Unzips an option containing a tuple of two values.
+   *
+   * If `self` is `Some([a, b])` this method returns `[Some(a), Some(b)]`.
+   * Otherwise, `[None, None]` is returned.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let x = Some<[number, string]>([1, "hi"]);
+   * let y = None<[number, number]>();
+   *
+   * console.log(x.unzip()); // [ Some(1), Some("hi") ]
+   * console.log(y.unzip()); // [ None, None ]
+   * ```
+   */
+  unzip<A, B>(this: Option<[A, B]>): [Option<A>, Option<B>];
+
+  /** Maps an `Option<T>` to an `Option<T>` holding a shallow copy of the
+   * contained value, made like `Result.copied` does.
+   *
+   * # Panics
+   *
+   * Panics if the value is a `Promise`, `WeakMap`, `WeakSet` or `WeakRef`,
+   * whose contents can't be copied.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let point = { x: 1, y: 2 };
+   * let x = Some(point).copied();
+   * x.unwrap().x = 3;
+   * console.log(point.x); // 1
+   * ```
+   */
+  copied(this: Option<T>): Option<T>;
+
+  /** Maps an `Option<T>` to an `Option<T>` holding a deep copy of the
+   * contained value, made with `structuredClone`.
+   *
+   * # Panics (throws)
+   *
+   * Throws a `DOMException` if the value can't be cloned, like functions.
+   * Class instances are cloned into plain objects.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let config = { server: { port: 80 } };
+   * let x = Some(config).cloned();
+   * x.unwrap().server.port = 8080;
+   * console.log(config.server.port); // 80
+   * ```
+   */
+  cloned(this: Option<T>): Option<T>;
+
   /** Transposes an `Option` of a `Result` into a `Result` of an `Option`.
    *
    * `None` will be mapped to `Ok(None)`.
@@ -561,7 +941,7 @@ export interface Option<T> {
    * y = y.transpose();
    * ```
    */
-  transpose<E>(this: Option<Result<T, E>>): Result<Option<T>, E>;
+  transpose<U, E>(this: Option<Result<U, E>>): Result<Option<U>, E>;
 
   /** Converts from `Option<Option<T>>` to `Option<T>`
    *
@@ -588,34 +968,103 @@ export interface Option<T> {
    * console.log(x.flatten().flatten().contains(6)); // true;
    * ```
    */
-  flatten(this: Option<Option<T>>): Option<T>;
-  [Symbol.iterator](): Iterable<T>;
+  flatten<U>(this: Option<Option<U>>): Option<U>;
+
+  /** Returns the JSON representation of the option, `{ "Some": value }` or
+   * `{ "None": null }`, which `JSON.stringify` uses.
+   *
+   * # Examples
+   *
+   * ```ts
+   * console.log(JSON.stringify(Some(1))); // {"Some":1}
+   * console.log(JSON.stringify({ x: None() })); // {"x":{"None":null}}
+   * ```
+   */
+  toJSON(this: Option<T>): OptionJSON<T>;
+
+  [Debug](this: Option<T>, format: (value: unknown) => string): string;
+  [denoCustomInspect](this: Option<T>): string;
+  [nodeCustomInspect](this: Option<T>): string;
+  [Symbol.iterator](): IterableIterator<T>;
 }
 
 class FlattenHack<T> {
 }
-function Option<S>(value?: S): Option<S> {
+
+// Every option built by `Option`, which tells them apart from other values
+// in `Eq` and `Ord`, each of them having its own class.
+const options = new WeakSet<object>();
+
+function isOption(value: unknown): value is Option<unknown> {
+  return typeof value == "object" && value != null && options.has(value);
+}
+
+// `some` is tracked apart from `value`, `null` and `undefined` being valid
+// `Some` values.
+function Option<S>(some: boolean, value?: S): Option<S> {
   return new (class OptionImpl<T extends S> extends FlattenHack<T>
     implements Option<S> {
     constructor() {
       super();
+      options.add(this);
     }
 
     isSome(this: Option<T>): boolean {
-      return value != undefined;
+      return some;
+    }
+
+    isSomeAnd(this: Option<T>, f: (arg: S) => boolean): boolean {
+      return some && f(value as S);
     }
 
     isNone(this: Option<T>): boolean {
-      return !this.isSome();
+      return !some;
+    }
+
+    isNoneOr(this: Option<T>, f: (arg: S) => boolean): boolean {
+      return !some || f(value as S);
     }
 
     contains<U>(this: Option<T>, x: U | T): boolean {
-      return this.isSome() && value == x;
+      return some && equals(value, x);
+    }
+
+    eq(this: Option<T>, other: Option<T>): boolean {
+      if (!some) return other.isNone();
+      return other.isSome() && equals(value, other.unwrap());
+    }
+
+    [Eq](this: Option<T>, other: unknown): boolean {
+      return isOption(other) && this.eq(other as Option<T>);
+    }
+
+    cmp(this: Option<T>, other: Option<T>): Ordering {
+      const ordering = this[Ord](other);
+      if (ordering == undefined) {
+        panic(`cannot compare \`${this}\` with \`${other}\``);
+      }
+      return ordering;
+    }
+
+    partialCmp(this: Option<T>, other: Option<T>): Option<Ordering> {
+      const ordering = this[Ord](other);
+      return ordering == undefined ? None() : Some(ordering);
+    }
+
+    [Ord](this: Option<T>, other: unknown): Ordering | undefined {
+      if (!isOption(other)) return undefined;
+      if (!some) return other.isNone() ? Ordering.Equal : Ordering.Less;
+      if (other.isNone()) return Ordering.Greater;
+      return partialCompare(value, other.unwrap());
     }
 
     expect(this: Option<T>, msg: string): S {
-      if (value == undefined) panic(msg);
-      return value;
+      if (!some) panic(msg);
+      return value as S;
+    }
+
+    expectNone(this: Option<T>, msg: string): void {
+      if (some) panic(`${msg}: ${debug(value)}`, value);
     }
 
     unwrap(this: Option<T>): S {
@@ -623,116 +1072,179 @@ function Option<S>(value?: S): Option<S> {
     }
 
     unwrapOr(this: Option<T>, defaultValue: T): S {
-      return value ?? defaultValue;
+      return some ? value as S : defaultValue;
     }
 
     unwrapOrElse(this: Option<T>, f: () => T): S {
-      return value ?? f();
+      return some ? value as S : f();
+    }
+
+    unwrapOrDefault<U extends S>(
+      this: Option<U>,
+      provider: DefaultProvider<U>,
+    ): U {
+      return some ? value as U : defaultOf(provider);
     }
 
     map<U>(this: Option<T>, f: (arg: S) => U): Option<U> {
-      if (value == undefined) {
-        return None();
-      }
-      return Some(f(value));
+      if (!some) return None();
+      return Some(f(value as S));
     }
 
-    mapOr<U>(this: Option<T>, defaultValue: U, f: (arg: T) => U): U {
-      return this.map(f).unwrapOr(defaultValue);
+    inspect(this: Option<T>, f: (arg: S) => void): Option<T> {
+      if (some) f(value as S);
+      return this;
+    }
+
+    mapOr<U>(this: Option<T>, defaultValue: U, f: (arg: S) => U): U {
+      if (!some) return defaultValue;
+      return f(value as S);
     }
 
     mapOrElse<U>(this: Option<T>, defaultValue: () => U, f: (arg: S) => U): U {
-      if (value == undefined) {
-        return defaultValue();
+      if (!some) return defaultValue();
+      return f(value as S);
+    }
+
+    mapOrDefault<U>(
+      this: Option<T>,
+      provider: DefaultProvider<U>,
+      f: (arg: S) => U,
+    ): U {
+      if (!some) return defaultOf(provider);
+      return f(value as S);
+    }
+
+    match<R>(
+      this: Option<T>,
+      arms: { Some: (value: S) => R; None: () => R },
+    ): R {
+      if (!some) return arms.None();
+      return arms.Some(value as S);
+    }
+
+    matchWhen<R>(this: Option<T>, ...arms: MatchArm<Option<T>, R>[]): R {
+      for (const arm of arms) {
+        const matched = arm(this);
+        if (matched.isSome()) return matched.unwrap();
       }
-      return f(value);
+      return panic(`no match arm matched \`${this}\``);
     }
 
     okOr<E>(this: Option<T>, error: E): Result<S, E> {
-      if (value == undefined) {
-        return Err(error);
-      }
-      return Ok(value);
+      if (!some) return Err(error);
+      return Ok(value as S);
     }
 
     okOrElse<E>(this: Option<T>, error: () => E): Result<S, E> {
-      if (value == undefined) {
-        return Err(error());
-      }
-      return Ok(value);
+      if (!some) return Err(error());
+      return Ok(value as S);
     }
 
-    iter(this: Option<T>): Iterable<S> {
-      return this[Symbol.iterator]();
+    okOrElseAsync<E>(
+      this: Option<T>,
+      error: () => E | PromiseLike<E>,
+    ): AsyncResult<S, E> {
+      if (some) return AsyncResult.Ok(value as S);
+      const promise = new Promise<E>((resolve) => resolve(error()));
+      return AsyncResult.from(promise.then((err) => Err<S, E>(err)));
+    }
+
+    context(this: Option<T>, context: string): Result<S, ContextError> {
+      return this.okOrElse(() => new ContextError(context));
+    }
+
+    withContext(this: Option<T>, f: () => string): Result<S, ContextError> {
+      return this.okOrElse(() => new ContextError(f()));
+    }
+
+    iter(this: Option<T>): Iter<S> {
+      return Iter.from(this as unknown as Iterable<S>);
+    }
+
+    toArray(this: Option<T>): S[] {
+      return some ? [value as S] : [];
     }
 
-    *[Symbol.iterator](this: Option<T>): Iterable<S> {
-      if (value != undefined) yield value;
+    *[Symbol.iterator](this: Option<T>): IterableIterator<S> {
+      if (some) yield value as S;
     }
 
     and<U>(this: Option<T>, optb: Option<U>): Option<U> {
-      if (this.isNone()) return None();
+      if (!some) return None();
       return optb;
     }
 
     andThen<U>(this: Option<T>, optb: (arg: S) => Option<U>): Option<U> {
-      if (value == undefined) return None();
-      return optb(value);
+      if (!some) return None();
+      return optb(value as S);
     }
 
     filter(this: Option<T>, predicate: (arg: S) => boolean): Option<S> {
-      if (value == undefined || !predicate(value)) return None();
-      return Some(value);
+      if (!some || !predicate(value as S)) return None();
+      return Some(value as S);
     }
 
     or(this: Option<T>, optb: Option<T>): Option<T> {
-      if (this.isSome()) return this;
+      if (some) return this;
       return optb;
     }
 
     orElse(this: Option<T>, optb: () => Option<T>): Option<T> {
-      if (this.isSome()) return this;
+      if (some) return this;
       return optb();
     }
 
     xor(this: Option<T>, optb: Option<T>): Option<T> {
-      if (this.isSome() && optb.isNone()) return this;
-      if (this.isNone()) return optb;
+      if (some && optb.isNone()) return this;
+      if (!some) return optb;
       return None();
     }
 
     insert(this: Option<T>, newValue: T): S {
+      some = true;
       value = newValue;
       return value;
     }
 
-    getOrInsert(this: Option<T>, value: T): T {
-      if (value == undefined) return this.insert(value);
-      return value;
+    getOrInsert(this: Option<T>, newValue: T): S {
+      if (!some) return this.insert(newValue);
+      return value as S;
     }
 
     getOrInsertWith(this: Option<T>, f: () => T): S {
-      if (value == undefined) return this.insert(f());
-      return value;
+      if (!some) return this.insert(f());
+      return value as S;
+    }
+
+    getOrInsertDefault<U extends S>(
+      this: Option<U>,
+      provider: DefaultProvider<U>,
+    ): U {
+      if (!some) return this.insert(defaultOf(provider));
+      return value as U;
     }
 
     take(this: Option<T>): Option<S> {
-      const newOption = Option(value);
+      const newOption = Option(some, value);
+      some = false;
       value = undefined;
       return newOption;
     }
 
+    takeIf(this: Option<T>, predicate: (arg: T) => boolean): Option<T> {
+      if (this.isSomeAnd(predicate)) return this.take();
+      return None();
+    }
+
     replace(this: Option<T>, newValue: T): Option<S> {
-      const oldOption = Option(value);
-      value = newValue;
+      const oldOption = Option(some, value);
+      this.insert(newValue);
       return oldOption;
     }
 
     zip<U>(this: Option<T>, other: Option<U>): Option<[S, U]> {
-      if (value == undefined || other.isNone()) {
-        return None();
-      }
-      return Some([value, other.unwrap()]);
+      return this.zipWith(other, (lhs, rhs) => [lhs, rhs]);
     }
 
     zipWith<U, R>(
@@ -740,38 +1252,66 @@ function Option<S>(value?: S): Option<S> {
       other: Option<U>,
       f: (lhs: S, rhs: U) => R,
     ): Option<R> {
-      if (value == undefined || other.isNone() == undefined) {
-        return None();
-      }
-      return Some(f(value, other.unwrap()));
+      if (!some || other.isNone()) return None();
+      return Some(f(value as S, other.unwrap()));
     }
 
-    transpose<E>(this: Option<Result<T, E>>): Result<Option<T>, E> {
-      if (value == undefined || !(value instanceof Result)) return Ok(None());
-      if (value.isOk()) return Ok(Some(value.unwrap()));
-      return Err(value.unwrapErr());
+    unzip<A, B>(this: Option<[A, B]>): [Option<A>, Option<B>] {
+      if (!some) return [None(), None()];
+      const [a, b] = value as [A, B];
+      return [Some(a), Some(b)];
     }
 
-    flatten(this: Option<Option<T>>): Option<S> {
-      if (value != undefined && value instanceof FlattenHack) {
-        return value as unknown as Option<S>;
-      }
-      return Option(value);
+    copied(this: Option<T>): Option<T> {
+      return this.map(copy);
+    }
+
+    cloned(this: Option<T>): Option<T> {
+      return this.map((value) => structuredClone(value));
+    }
+
+    transpose<U, E>(this: Option<Result<U, E>>): Result<Option<U>, E> {
+      if (!some) return Ok(None());
+      const result = value as Result<U, E>;
+      if (result.isOk()) return Ok(Some(result.unwrap()));
+      return Err(result.unwrapErr());
+    }
+
+    flatten<U>(this: Option<Option<U>>): Option<U> {
+      if (!some) return None();
+      return value as Option<U>;
+    }
+
+    override toString(this: Option<T>): string {
+      return debug(this);
+    }
+
+    toJSON(this: Option<T>): OptionJSON<S> {
+      if (!some) return { None: null };
+      return { Some: value as S };
+    }
+
+    [Debug](this: Option<T>, format: (value: unknown) => string): string {
+      if (!some) return "None";
+      return `Some(${format(value)})`;
+    }
+
+    [denoCustomInspect](this: Option<T>): string {
+      return debug(this);
     }
 
-    toString(this: Option<T>): string {
-      if (this.isNone()) return "None";
-      return `Some(${value})`;
+    [nodeCustomInspect](this: Option<T>): string {
+      return debug(this);
     }
   })();
 }
 
 /** Some value `T`  */
 export function Some<T>(value: T): Option<T> {
-  return Option(value);
+  return Option(true, value);
 }
 
 /** No value  */
 export function None<T>(): Option<T> {
-  return Option();
+  return Option(false);
 }
@@ -0,0 +1,122 @@
+// Type-level tests pinning down the types inferred for constructors and
+// combinators: each `assertType` fails to type-check if an inferred type
+// changes, the runtime assertions only keep the examples honest.
+import { strictEqual } from "node:assert/strict";
+import { assertType, IsExact } from "./_test_util.ts";
+import { AsyncResult } from "./asyncResult.ts";
+import { None, Option, Some } from "./option.ts";
+import { Err, Ok, Result } from "./result.ts";
+
+function parseInteger(n: string): Result<number, string> {
+  const parsed = parseInt(n);
+  if (Number.isNaN(parsed)) return Err(`${n} is not a Number!`);
+  return Ok(parsed);
+}
+
+function checkPositive(n: number): Result<number, RangeError> {
+  if (n <= 0) return Err(new RangeError(`${n} is not positive`));
+  return Ok(n);
+}
+
+Deno.test("constructors infer never for missing parameters", () => {
+  const ok = Ok(5);
+  const err = Err("boom");
+  assertType<IsExact<typeof ok, Ok<number, never>>>(true);
+  assertType<IsExact<typeof err, Err<never, string>>>(true);
+
+  const asyncOk = AsyncResult.Ok(5);
+  const asyncErr = AsyncResult.Err("boom");
+  assertType<IsExact<typeof asyncOk, AsyncResult<number, never>>>(true);
+  assertType<IsExact<typeof asyncErr, AsyncResult<never, string>>>(true);
+
+  // `never` being assignable to anything, they fit any context
+  const x: Result<number, string> = ok;
+  const y: Result<number, string> = err;
+  const z: Result<number, string>[] = [Ok(1), Err("a")];
+  strictEqual(x.isOk() && y.isErr() && z.length == 2, true);
+
+  const some = Some(1);
+  const none = None<string>();
+  assertType<IsExact<typeof some, Some<number>>>(true);
+  assertType<IsExact<typeof none, None<string>>>(true);
+});
+
+Deno.test("andThen widens the error type", async () => {
+  const x = parseInteger("1").andThen(checkPositive);
+  assertType<IsExact<typeof x, Result<number, string | RangeError>>>(true);
+  strictEqual(x.unwrap(), 1);
+
+  const y = Ok(1).andThen((n) => n > 0 ? Ok(`${n}`) : Err(false));
+  assertType<IsExact<typeof y, Result<string, boolean>>>(true);
+
+  const z = AsyncResult.from(parseInteger("0")).andThen(checkPositive);
+  assertType<IsExact<typeof z, AsyncResult<number, string | RangeError>>>(
+    true,
+  );
+  strictEqual((await z.unwrapErr()) instanceof RangeError, true);
+});
+
+Deno.test("orElse widens the success type", async () => {
+  const x = parseInteger("foo").orElse(() => Ok("fallback"));
+  assertType<IsExact<typeof x, Result<number | string, never>>>(true);
+  strictEqual(x.unwrap(), "fallback");
+
+  const y = parseInteger("foo").orElse((e) => Err(e.length));
+  assertType<IsExact<typeof y, Result<number, number>>>(true);
+
+  const z = AsyncResult.from(parseInteger("foo")).orElse(() => Ok(true));
+  assertType<IsExact<typeof z, AsyncResult<number | boolean, never>>>(true);
+  strictEqual(await z.unwrap(), true);
+});
+
+Deno.test("flatten removes one level of nesting", async () => {
+  const x: Result<Result<number, RangeError>, string> = Ok(checkPositive(1));
+  const flat = x.flatten();
+  assertType<IsExact<typeof flat, Result<number, string | RangeError>>>(true);
+  strictEqual(flat.unwrap(), 1);
+
+  const deep = Ok(Ok(Ok(1))).flatten();
+  assertType<IsExact<typeof deep, Result<Ok<number, never>, never>>>(true);
+
+  const asyncFlat = AsyncResult.Ok(checkPositive(0)).flatten();
+  assertType<IsExact<typeof asyncFlat, AsyncResult<number, RangeError>>>(
+    true,
+  );
+  strictEqual((await asyncFlat.unwrapErr()).message, "0 is not positive");
+
+  const option: Option<Option<Option<number>>> = Some(Some(Some(6)));
+  const once = option.flatten();
+  assertType<IsExact<typeof once, Option<Option<number>>>>(true);
+  strictEqual(once.flatten().unwrap(), 6);
+});
+
+Deno.test("transpose swaps Option and Result", () => {
+  const x: Result<Option<number>, string> = Ok(Some(5));
+  const swapped = x.transpose();
+  assertType<IsExact<typeof swapped, Option<Result<number, string>>>>(true);
+  strictEqual(swapped.unwrap().unwrap(), 5);
+
+  const back = swapped.transpose();
+  assertType<IsExact<typeof back, Result<Option<number>, string>>>(true);
+  strictEqual(back.unwrap().unwrap(), 5);
+});
+
+Deno.test("gen and all infer the union of the error types", () => {
+  const x = Result.gen(function* () {
+    const n = yield* parseInteger("42").try();
+    return yield* checkPositive(n).try();
+  });
+  assertType<IsExact<typeof x, Result<number, string | RangeError>>>(true);
+
+  const y = Result.all([parseInteger("1"), checkPositive(2), Ok("hi")]);
+  assertType<
+    IsExact<typeof y, Result<[number, number, string], string | RangeError>>
+  >(true);
+
+  const z = Result.all([Ok(1), Ok("hi")]);
+  assertType<IsExact<typeof z, Result<[number, string], never>>>(true);
+
+  const w = Result.all({ a: Ok(1), b: Err("x") });
+  assertType<IsExact<typeof w, Result<{ a: number; b: never }, string>>>(true);
+  strictEqual(w.unwrapErr(), "x");
+});
@@ -0,0 +1,505 @@
+import { Comparator, compare, Ordering } from "./cmp.ts";
+import { None, Option, Some } from "./option.ts";
+import { Ok, Result } from "./result.ts";
+
+/** Lazy iterators.
+ *
+ * `Iter<T>` wraps any JavaScript iterable and brings Rust's iterator
+ * vocabulary to it. Adapters (`map`, `filter`, `take`, `zip`...) are lazy,
+ * nothing is computed until the iterator is consumed, by `next`, `fold`,
+ * `collect`, a `for...of` loop or any other consumer.
+ *
+ * Unlike JavaScript iterators, `next` returns an `Option<T>`, and every
+ * consumer that may not have a result (`find`, `last`, `nth`, `max`...)
+ * returns an `Option` rather than `undefined`.
+ *
+ * ```ts
+ * let sumOfSquaredOdds = Iter.from([1, 2, 3, 4, 5])
+ *    .filter((x) => x % 2 == 1)
+ *    .map((x) => x * x)
+ *    .sum();
+ * console.log(sumOfSquaredOdds); // 35
+ *
+ * let words = Iter.from(["apple", "banana", "cherry"]);
+ * console.log(words.find((w) => w.startsWith("b")).unwrap()); // "banana"
+ * ```
+ */
+export class Iter<T> implements Iterable<T> {
+  protected constructor(private iterator: Iterator<T>) {}
+
+  /** Creates an `Iter` over the values of an iterable. */
+  static from<T>(iterable: Iterable<T>): Iter<T> {
+    return new Iter(iterable[Symbol.iterator]());
+  }
+
+  /** Advances the iterator and returns the next value, `None` when
+   * iteration is finished.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let iter = Iter.from([1, 2]);
+   * console.log(iter.next().unwrap()); // 1
+   * console.log(iter.next().unwrap()); // 2
+   * console.log(iter.next().isNone()); // true
+   * ```
+   */
+  next(this: Iter<T>): Option<T> {
+    const next = this.iterator.next();
+    if (next.done) return None();
+    return Some(next.value);
+  }
+
+  *[Symbol.iterator](this: Iter<T>): Iterator<T> {
+    for (let next = this.next(); next.isSome(); next = this.next()) {
+      yield next.unwrap();
+    }
+  }
+
+  /** Takes a closure and creates an iterator which calls that closure on
+   * each value.
+   *
+   * # Examples
+   *
+   * ```ts
+   * console.log(Iter.from([1, 2, 3]).map((x) => 2 * x).collect()); // [ 2, 4, 6 ]
+   * ```
+   */
+  map<U>(this: Iter<T>, f: (value: T) => U): Iter<U> {
+    return Iter.from(function* (iter: Iter<T>) {
+      for (const value of iter) yield f(value);
+    }(this));
+  }
+
+  /** Creates an iterator which uses a closure to determine if a value
+   * should be yielded.
+   *
+   * # Examples
+   *
+   * ```ts
+   * console.log(Iter.from([0, 1, 2]).filter((x) => x > 0).collect()); // [ 1, 2 ]
+   * ```
+   */
+  filter(this: Iter<T>, predicate: (value: T) => boolean): Iter<T> {
+    return Iter.from(function* (iter: Iter<T>) {
+      for (const value of iter) if (predicate(value)) yield value;
+    }(this));
+  }
+
+  /** Creates an iterator that both filters and maps, yielding the values of
+   * the `Some`s returned by `f`.
+   *
+   * # Examples
+   *
+   * ```ts
+   * function parse(s: string): Option<number> {
+   *    const n = parseInt(s);
+   *    return Number.isNaN(n) ? None() : Some(n);
+   * }
+   *
+   * console.log(Iter.from(["1", "two", "3"]).filterMap(parse).collect()); // [ 1, 3 ]
+   * ```
+   */
+  filterMap<U>(this: Iter<T>, f: (value: T) => Option<U>): Iter<U> {
+    return Iter.from(function* (iter: Iter<T>) {
+      for (const value of iter) yield* f(value);
+    }(this));
+  }
+
+  /** Creates an iterator that works like `map`, but flattens the iterables
+   * returned by `f`.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let words = Iter.from(["alpha", "beta"]);
+   * console.log(words.flatMap((w) => w.slice(0, 2)).collect()); // [ "a", "l", "b", "e" ]
+   * ```
+   */
+  flatMap<U>(this: Iter<T>, f: (value: T) => Iterable<U>): Iter<U> {
+    return Iter.from(function* (iter: Iter<T>) {
+      for (const value of iter) yield* f(value);
+    }(this));
+  }
+
+  /** Creates an iterator that yields the first `n` values, or fewer if the
+   * underlying iterator ends sooner.
+   *
+   * # Examples
+   *
+   * ```ts
+   * console.log(Iter.from([1, 2, 3]).take(2).collect()); // [ 1, 2 ]
+   * ```
+   */
+  take(this: Iter<T>, n: number): Iter<T> {
+    return Iter.from(function* (iter: Iter<T>) {
+      for (let i = 0; i < n; i++) {
+        const next = iter.next();
+        if (next.isNone()) return;
+        yield next.unwrap();
+      }
+    }(this));
+  }
+
+  /** Creates an iterator that skips the first `n` values.
+   *
+   * # Examples
+   *
+   * ```ts
+   * console.log(Iter.from([1, 2, 3]).skip(2).collect()); // [ 3 ]
+   * ```
+   */
+  skip(this: Iter<T>, n: number): Iter<T> {
+    return Iter.from(function* (iter: Iter<T>) {
+      for (let i = 0; i < n && iter.next().isSome(); i++);
+      yield* iter;
+    }(this));
+  }
+
+  /** 'Zips up' two iterators into a single iterator of pairs, which ends
+   * as soon as one of them ends.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let zipped = Iter.from([1, 2, 3]).zip(["a", "b"]);
+   * console.log(zipped.collect()); // [ [ 1, "a" ], [ 2, "b" ] ]
+   * ```
+   */
+  zip<U>(this: Iter<T>, other: Iterable<U>): Iter<[T, U]> {
+    const otherIter = Iter.from(other);
+    return Iter.from(function* (iter: Iter<T>) {
+      for (const value of iter) {
+        const otherNext = otherIter.next();
+        if (otherNext.isNone()) return;
+        yield [value, otherNext.unwrap()] as [T, U];
+      }
+    }(this));
+  }
+
+  /** Creates an iterator which gives the current iteration count as well as
+   * the value.
+   *
+   * # Examples
+   *
+   * ```ts
+   * console.log(Iter.from(["a", "b"]).enumerate().collect()); // [ [ 0, "a" ], [ 1, "b" ] ]
+   * ```
+   */
+  enumerate(this: Iter<T>): Iter<[number, T]> {
+    return Iter.from(function* (iter: Iter<T>) {
+      let i = 0;
+      for (const value of iter) yield [i++, value] as [number, T];
+    }(this));
+  }
+
+  /** Takes two iterators and creates a new iterator over both in sequence.
+   *
+   * # Examples
+   *
+   * ```ts
+   * console.log(Iter.from([1, 2]).chain([3]).collect()); // [ 1, 2, 3 ]
+   * ```
+   */
+  chain(this: Iter<T>, other: Iterable<T>): Iter<T> {
+    return Iter.from(function* (iter: Iter<T>) {
+      yield* iter;
+      yield* other;
+    }(this));
+  }
+
+  /** Creates an iterator which can use `peek` to look at the next value
+   * without consuming it.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let iter = Iter.from([1, 2]).peekable();
+   * console.log(iter.peek().unwrap()); // 1
+   * console.log(iter.next().unwrap()); // 1
+   * console.log(iter.next().unwrap()); // 2
+   * console.log(iter.peek().isNone()); // true
+   * ```
+   */
+  peekable(this: Iter<T>): Peekable<T> {
+    return Peekable.over(this);
+  }
+
+  /** Folds every value into an accumulator by applying an operation,
+   * returning the final result.
+   *
+   * # Examples
+   *
+   * ```ts
+   * console.log(Iter.from([1, 2, 3]).fold(0, (acc, x) => acc + x)); // 6
+   * ```
+   */
+  fold<B>(this: Iter<T>, init: B, f: (acc: B, value: T) => B): B {
+    let acc = init;
+    for (const value of this) acc = f(acc, value);
+    return acc;
+  }
+
+  /** Like `fold`, but `f` returns a `Result` and folding stops at the first
+   * `Err`, which is returned.
+   *
+   * # Examples
+   *
+   * ```ts
+   * function checkedAdd(acc: number, x: number): Result<number, string> {
+   *    const sum = acc + x;
+   *    return Number.isSafeInteger(sum) ? Ok(sum) : Err("overflow");
+   * }
+   *
+   * console.log(Iter.from([1, 2, 3]).tryFold(0, checkedAdd).unwrap()); // 6
+   *
+   * let iter = Iter.from([Number.MAX_SAFE_INTEGER, 1, 2]);
+   * console.log(iter.tryFold(0, checkedAdd).unwrapErr()); // overflow
+   * console.log(iter.next().unwrap()); // 2, folding stopped right after the error
+   * ```
+   */
+  tryFold<B, E>(
+    this: Iter<T>,
+    init: B,
+    f: (acc: B, value: T) => Result<B, E>,
+  ): Result<B, E> {
+    let acc = init;
+    for (let next = this.next(); next.isSome(); next = this.next()) {
+      const result = f(acc, next.unwrap());
+      if (result.isErr()) return result;
+      acc = result.unwrap();
+    }
+    return Ok(acc);
+  }
+
+  /** Calls a closure on each value of the iterator. */
+  forEach(this: Iter<T>, f: (value: T) => void): void {
+    for (const value of this) f(value);
+  }
+
+  /** Returns the first value satisfying `predicate`, `None` if there is
+   * none.
+   *
+   * Consumes the iterator up to the found value.
+   *
+   * # Examples
+   *
+   * ```ts
+   * console.log(Iter.from([1, 2, 3]).find((x) => x == 2).unwrap()); // 2
+   * console.log(Iter.from([1, 2, 3]).find((x) => x == 5).isNone()); // true
+   * ```
+   */
+  find(this: Iter<T>, predicate: (value: T) => boolean): Option<T> {
+    for (let next = this.next(); next.isSome(); next = this.next()) {
+      if (predicate(next.unwrap())) return next;
+    }
+    return None();
+  }
+
+  /** Returns the index of the first value satisfying `predicate`, `None` if
+   * there is none.
+   *
+   * # Examples
+   *
+   * ```ts
+   * console.log(Iter.from([1, 2, 3]).position((x) => x == 2).unwrap()); // 1
+   * console.log(Iter.from([1, 2, 3]).position((x) => x == 5).isNone()); // true
+   * ```
+   */
+  position(this: Iter<T>, predicate: (value: T) => boolean): Option<number> {
+    const found = this.enumerate().find(([, value]) => predicate(value));
+    return found.map(([index]) => index);
+  }
+
+  /** Returns `true` if `predicate` returns `true` for every value, `true`
+   * for an empty iterator.
+   */
+  all(this: Iter<T>, predicate: (value: T) => boolean): boolean {
+    for (const value of this) if (!predicate(value)) return false;
+    return true;
+  }
+
+  /** Returns `true` if `predicate` returns `true` for any value, `false`
+   * for an empty iterator.
+   */
+  any(this: Iter<T>, predicate: (value: T) => boolean): boolean {
+    return this.find(predicate).isSome();
+  }
+
+  /** Consumes the iterator, counting the number of values. */
+  count(this: Iter<T>): number {
+    return this.fold(0, (count) => count + 1);
+  }
+
+  /** Consumes the iterator, returning the last value, `None` if it is
+   * empty.
+   *
+   * # Examples
+   *
+   * ```ts
+   * console.log(Iter.from([1, 2, 3]).last().unwrap()); // 3
+   * console.log(Iter.from([]).last().isNone()); // true
+   * ```
+   */
+  last(this: Iter<T>): Option<T> {
+    return this.fold<Option<T>>(None(), (_, value) => Some(value));
+  }
+
+  /** Returns the `n`th value (zero-based) of the iterator, `None` if it is
+   * too short.
+   *
+   * # Examples
+   *
+   * ```ts
+   * console.log(Iter.from([1, 2, 3]).nth(1).unwrap()); // 2
+   * console.log(Iter.from([1, 2, 3]).nth(3).isNone()); // true
+   * ```
+   */
+  nth(this: Iter<T>, n: number): Option<T> {
+    return this.skip(n).next();
+  }
+
+  /** Returns the minimum value, `None` if the iterator is empty. If several
+   * values are equally minimum, the first one is returned.
+   *
+   * Values are compared with `compare`, so they may be any type it orders,
+   * including classes implementing `Ord`; use `minBy` to order them another
+   * way.
+   *
+   * # Panics
+   *
+   * Panics if two values can't be compared, like `NaN` and a number.
+   *
+   * # Examples
+   *
+   * ```ts
+   * console.log(Iter.from([3, 1, 2]).min().unwrap()); // 1
+   * console.log(Iter.from<number>([]).min().isNone()); // true
+   * ```
+   */
+  min(this: Iter<T>): Option<T> {
+    return this.minBy(compare);
+  }
+
+  /** Returns the minimum value according to `comparator`, `None` if the
+   * iterator is empty. If several values are equally minimum, the first one
+   * is returned.
+   *
+   * # Examples
+   *
+   * ```ts
+   * const words = Iter.from(["ccc", "a", "bb"]);
+   * console.log(words.minBy(compareBy((w) => w.length)).unwrap()); // "a"
+   * ```
+   */
+  minBy(this: Iter<T>, comparator: Comparator<T>): Option<T> {
+    return this.fold<Option<T>>(
+      None(),
+      (min, value) =>
+        min.isSome() && comparator(min.value, value) != Ordering.Greater
+          ? min
+          : Some(value),
+    );
+  }
+
+  /** Returns the maximum value, `None` if the iterator is empty. If several
+   * values are equally maximum, the last one is returned.
+   *
+   * Values are compared with `compare`, like `min`; use `maxBy` to order
+   * them another way.
+   *
+   * # Panics
+   *
+   * Panics if two values can't be compared, like `NaN` and a number.
+   *
+   * # Examples
+   *
+   * ```ts
+   * console.log(Iter.from(["b", "c", "a"]).max().unwrap()); // "c"
+   * console.log(Iter.from<string>([]).max().isNone()); // true
+   * ```
+   */
+  max(this: Iter<T>): Option<T> {
+    return this.maxBy(compare);
+  }
+
+  /** Returns the maximum value according to `comparator`, `None` if the
+   * iterator is empty. If several values are equally maximum, the last one
+   * is returned.
+   *
+   * # Examples
+   *
+   * ```ts
+   * const words = Iter.from(["ccc", "a", "bb"]);
+   * console.log(words.maxBy(compareBy((w) => w.length)).unwrap()); // "ccc"
+   * ```
+   */
+  maxBy(this: Iter<T>, comparator: Comparator<T>): Option<T> {
+    return this.fold<Option<T>>(
+      None(),
+      (max, value) =>
+        max.isSome() && comparator(max.value, value) == Ordering.Greater
+          ? max
+          : Some(value),
+    );
+  }
+
+  /** Sums the values of an iterator of numbers, `0` if it is empty.
+   *
+   * # Examples
+   *
+   * ```ts
+   * console.log(Iter.from([1, 2, 3]).sum()); // 6
+   * ```
+   */
+  sum(this: Iter<number>): number {
+    return this.fold(0, (sum, value) => sum + value);
+  }
+
+  /** Consumes the iterator into an array.
+   *
+   * Use `Result.collect` or `Option.collect` to collect an iterator of
+   * `Result`s or `Option`s into a single one.
+   *
+   * # Examples
+   *
+   * ```ts
+   * console.log(Iter.from("abc").collect()); // [ "a", "b", "c" ]
+   * ```
+   */
+  collect(this: Iter<T>): T[] {
+    return [...this];
+  }
+}
+
+/** An iterator with a `peek` method, see `Iter.peekable`. */
+export class Peekable<T> extends Iter<T> {
+  private peeked?: Option<T>;
+
+  /** Creates a `Peekable` over the values of an iterable. */
+  static over<T>(iterable: Iterable<T>): Peekable<T> {
+    return new Peekable(iterable[Symbol.iterator]());
+  }
+
+  override next(this: Peekable<T>): Option<T> {
+    const next = this.peek();
+    this.peeked = undefined;
+    return next;
+  }
+
+  /** Returns the next value without advancing the iterator.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let iter = Iter.from([1, 2]).peekable();
+   * console.log(iter.peek().unwrap()); // 1
+   * console.log(iter.peek().unwrap()); // 1
+   * console.log(iter.collect()); // [ 1, 2 ]
+   * ```
+   */
+  peek(this: Peekable<T>): Option<T> {
+    this.peeked ??= super.next();
+    return this.peeked;
+  }
+}
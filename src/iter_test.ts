@@ -0,0 +1,187 @@
+import { deepStrictEqual, strictEqual, throws } from "node:assert/strict";
+import { assertType, IsExact } from "./_test_util.ts";
+import { compareBy } from "./cmp.ts";
+import { Iter } from "./iter.ts";
+import { None, Some } from "./option.ts";
+import { PanicError } from "./panic.ts";
+import { Err, Ok, Result } from "./result.ts";
+
+function* naturals(): Generator<number> {
+  for (let i = 0;; i++) yield i;
+}
+
+Deno.test("next returns an Option", () => {
+  const iter = Iter.from([1, 2]);
+  deepStrictEqual(iter.next(), Some(1));
+  deepStrictEqual(iter.next(), Some(2));
+  deepStrictEqual(iter.next(), None());
+  deepStrictEqual(iter.next(), None());
+});
+
+Deno.test("adapters are lazy", () => {
+  const seen: number[] = [];
+  const iter = Iter.from(naturals())
+    .map((x) => {
+      seen.push(x);
+      return x * x;
+    })
+    .filter((x) => x % 2 == 1);
+  deepStrictEqual(seen, []);
+  deepStrictEqual(iter.take(2).collect(), [1, 9]);
+  deepStrictEqual(seen, [0, 1, 2, 3]);
+});
+
+Deno.test("adapters", async (t) => {
+  await t.step("map and filter", () => {
+    deepStrictEqual(Iter.from([1, 2, 3]).map((x) => x * 2).collect(), [
+      2,
+      4,
+      6,
+    ]);
+    deepStrictEqual(Iter.from([1, 2, 3]).filter((x) => x != 2).collect(), [
+      1,
+      3,
+    ]);
+  });
+
+  await t.step("filterMap keeps the Some values", () => {
+    const parsed = Iter.from(["1", "two", "3"])
+      .filterMap((s) =>
+        Number.isNaN(Number(s)) ? None<number>() : Some(Number(s))
+      );
+    assertType<IsExact<typeof parsed, Iter<number>>>(true);
+    deepStrictEqual(parsed.collect(), [1, 3]);
+  });
+
+  await t.step("flatMap flattens iterables", () => {
+    deepStrictEqual(Iter.from(["ab", "c"]).flatMap((s) => s).collect(), [
+      "a",
+      "b",
+      "c",
+    ]);
+    deepStrictEqual(
+      Iter.from([Some(1), None(), Some(3)]).flatMap((x) => x).collect(),
+      [1, 3],
+    );
+  });
+
+  await t.step("take and skip", () => {
+    deepStrictEqual(Iter.from([1, 2, 3]).take(2).collect(), [1, 2]);
+    deepStrictEqual(Iter.from([1, 2, 3]).take(5).collect(), [1, 2, 3]);
+    deepStrictEqual(Iter.from([1, 2, 3]).skip(2).collect(), [3]);
+    deepStrictEqual(Iter.from([1, 2, 3]).skip(5).collect(), []);
+  });
+
+  await t.step("zip ends with the shortest iterator", () => {
+    deepStrictEqual(Iter.from([1, 2, 3]).zip(["a", "b"]).collect(), [
+      [1, "a"],
+      [2, "b"],
+    ]);
+    deepStrictEqual(Iter.from(["a"]).zip(naturals()).collect(), [["a", 0]]);
+  });
+
+  await t.step("enumerate and chain", () => {
+    deepStrictEqual(Iter.from(["a", "b"]).enumerate().collect(), [
+      [0, "a"],
+      [1, "b"],
+    ]);
+    deepStrictEqual(Iter.from([1, 2]).chain([3]).collect(), [1, 2, 3]);
+  });
+
+  await t.step("peekable", () => {
+    const iter = Iter.from([1, 2]).peekable();
+    deepStrictEqual(iter.peek(), Some(1));
+    deepStrictEqual(iter.peek(), Some(1));
+    deepStrictEqual(iter.next(), Some(1));
+    deepStrictEqual(iter.collect(), [2]);
+    deepStrictEqual(iter.peek(), None());
+  });
+});
+
+Deno.test("consumers", async (t) => {
+  await t.step("fold and sum", () => {
+    strictEqual(Iter.from([1, 2, 3]).fold("", (acc, x) => acc + x), "123");
+    strictEqual(Iter.from([1, 2, 3]).sum(), 6);
+    strictEqual(Iter.from<number>([]).sum(), 0);
+  });
+
+  await t.step("tryFold stops at the first Err", () => {
+    const checkedAdd = (acc: number, x: number): Result<number, string> =>
+      Number.isSafeInteger(acc + x) ? Ok(acc + x) : Err("overflow");
+    deepStrictEqual(Iter.from([1, 2, 3]).tryFold(0, checkedAdd), Ok(6));
+    const iter = Iter.from([Number.MAX_SAFE_INTEGER, 1, 2]);
+    deepStrictEqual(iter.tryFold(0, checkedAdd), Err("overflow"));
+    deepStrictEqual(iter.next(), Some(2));
+  });
+
+  await t.step("find and position", () => {
+    deepStrictEqual(Iter.from(naturals()).find((x) => x > 2), Some(3));
+    deepStrictEqual(Iter.from([1, 2]).find((x) => x > 2), None());
+    deepStrictEqual(Iter.from(["a", "b"]).position((x) => x == "b"), Some(1));
+    deepStrictEqual(Iter.from(["a", "b"]).position((x) => x == "c"), None());
+  });
+
+  await t.step("find returns Some of undefined values", () => {
+    deepStrictEqual(
+      Iter.from([1, undefined]).find((x) => x == undefined),
+      Some(undefined),
+    );
+  });
+
+  await t.step("all, any and count", () => {
+    strictEqual(Iter.from([2, 4]).all((x) => x % 2 == 0), true);
+    strictEqual(Iter.from([2, 3]).all((x) => x % 2 == 0), false);
+    strictEqual(Iter.from([1, 2]).any((x) => x % 2 == 0), true);
+    strictEqual(Iter.from<number>([]).any(() => true), false);
+    strictEqual(Iter.from("abc").count(), 3);
+  });
+
+  await t.step("last and nth", () => {
+    deepStrictEqual(Iter.from([1, 2, 3]).last(), Some(3));
+    deepStrictEqual(Iter.from([]).last(), None());
+    deepStrictEqual(Iter.from([1, 2, 3]).nth(1), Some(2));
+    deepStrictEqual(Iter.from([1, 2, 3]).nth(3), None());
+  });
+
+  await t.step("min and max", () => {
+    deepStrictEqual(Iter.from([3, 1, 2]).min(), Some(1));
+    deepStrictEqual(Iter.from(["b", "c", "a"]).max(), Some("c"));
+    deepStrictEqual(Iter.from<number>([]).min(), None());
+    deepStrictEqual(Iter.from<bigint>([]).max(), None());
+    deepStrictEqual(Iter.from([Some(2), None(), Some(1)]).min(), Some(None()));
+    deepStrictEqual(
+      Iter.from([new Date(2), new Date(3), new Date(1)]).max(),
+      Some(new Date(3)),
+    );
+  });
+
+  await t.step("min and max panic on incomparable values", () => {
+    throws(() => Iter.from([1, NaN, 2]).min(), PanicError);
+    throws(() => Iter.from([1, NaN, 2]).max(), PanicError);
+  });
+
+  await t.step("minBy and maxBy", () => {
+    const byLength = compareBy((word: string) => word.length);
+    deepStrictEqual(Iter.from(["ccc", "a", "b"]).minBy(byLength), Some("a"));
+    deepStrictEqual(
+      Iter.from(["a", "ccc", "bbb"]).maxBy(byLength),
+      Some("bbb"),
+    );
+    deepStrictEqual(Iter.from<string>([]).minBy(byLength), None());
+  });
+
+  await t.step("for...of", () => {
+    const values = [];
+    for (const value of Iter.from([1, 2]).map(String)) values.push(value);
+    deepStrictEqual(values, ["1", "2"]);
+  });
+});
+
+Deno.test("Option.iter and Result.iter return an Iter", () => {
+  const x = Some(2).iter();
+  assertType<IsExact<typeof x, Iter<number>>>(true);
+  deepStrictEqual(x.map((v) => v * 2).collect(), [4]);
+  deepStrictEqual(None<number>().iter().next(), None());
+  deepStrictEqual(Ok<number, string>(2).iter().collect(), [2]);
+  deepStrictEqual(Err<number, string>("error").iter().next(), None());
+});
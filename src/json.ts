@@ -0,0 +1,101 @@
+import { None, Option, Some } from "./option.ts";
+import { Err, Ok } from "./result.ts";
+
+/** Options of `jsonReplacer`. */
+export interface JsonOptions {
+  /** How options are serialized:
+   * - `"tagged"` (default): `{ "Some": value }` or `{ "None": null }`, like
+   *   `Option.toJSON`. As `undefined` isn't JSON, `Some(undefined)` becomes
+   *   `{}`, which is not revived.
+   * - `"nullable"`: the contained value or `null`. This can't be revived by
+   *   `jsonReviver`, use `Option.fromNullable` on the parsed fields instead.
+   *   Options that would not read back as themselves this way make
+   *   `JSON.stringify` throw a `TypeError`, as it does for values it can't
+   *   serialize like bigints: `Some(null)`, `Some(undefined)` and nested
+   *   options like `Some(None())`.
+   */
+  option?: "tagged" | "nullable";
+}
+
+/** Builds a replacer for `JSON.stringify` serializing options according to
+ * `options`, results always being externally tagged, see `Result.toJSON`.
+ *
+ * # Examples
+ *
+ * ```ts
+ * let user = { name: "Bob", nickname: None(), age: Some(32) };
+ * console.log(JSON.stringify(user, jsonReplacer({ option: "nullable" }))); // {"name":"Bob","nickname":null,"age":32}
+ * ```
+ */
+export function jsonReplacer(
+  options: JsonOptions = {},
+): (this: unknown, key: string, value: unknown) => unknown {
+  return function (this: unknown, key: string, value: unknown) {
+    // `value` went through `toJSON` already, get the option itself
+    const raw = (this as Record<string, unknown>)[key];
+    if (options.option == "nullable" && raw instanceof Option) {
+      return toNullable(raw as Option<unknown>, key);
+    }
+    return value;
+  };
+}
+
+function toNullable(option: Option<unknown>, key: string): unknown {
+  if (option.isNone()) return null;
+  const value = option.value;
+  if (value == null || value instanceof Option) {
+    throw new TypeError(
+      `\`${option}\` can't be serialized as a nullable value`,
+    );
+  }
+  // `JSON.stringify` doesn't call `toJSON` on what replacers return
+  if (typeof (value as { toJSON?: unknown }).toJSON == "function") {
+    return (value as { toJSON(key: string): unknown }).toJSON(key);
+  }
+  return value;
+}
+
+/** Builds a reviver for `JSON.parse` turning the tagged representations of
+ * options and results back into `Option`s and `Result`s, nested ones
+ * included.
+ *
+ * Any object with a single `Some`, `None` (holding `null`), `Ok` or `Err`
+ * property is revived, so data that happens to have this shape will be
+ * revived as well.
+ *
+ * # Examples
+ *
+ * ```ts
+ * let x = JSON.parse('{"Ok":{"Some":[1,2]}}', jsonReviver());
+ * console.log(x.unwrap().unwrap()); // [ 1, 2 ]
+ *
+ * let y = JSON.parse(JSON.stringify({ retries: Some(3) }), jsonReviver());
+ * console.log(y.retries.contains(3)); // true
+ * ```
+ */
+export function jsonReviver(): (key: string, value: unknown) => unknown {
+  return (_key, value) => revive(value);
+}
+
+function revive(value: unknown): unknown {
+  if (
+    typeof value != "object" || !value ||
+    Object.getPrototypeOf(value) != Object.prototype
+  ) {
+    return value;
+  }
+  const keys = Object.keys(value);
+  if (keys.length != 1) return value;
+  const json = value as Record<string, unknown>;
+  switch (keys[0]) {
+    case "Some":
+      return Some(json.Some);
+    case "None":
+      return json.None === null ? None() : value;
+    case "Ok":
+      return Ok(json.Ok);
+    case "Err":
+      return Err(json.Err);
+  }
+  return value;
+}
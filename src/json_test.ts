@@ -0,0 +1,82 @@
+import { deepStrictEqual, strictEqual, throws } from "node:assert/strict";
+import { equals } from "./cmp.ts";
+import { jsonReplacer, jsonReviver } from "./json.ts";
+import { None, Option, Some } from "./option.ts";
+import { Err, Ok } from "./result.ts";
+
+function roundTrip(value: unknown): unknown {
+  return JSON.parse(JSON.stringify(value), jsonReviver());
+}
+
+Deno.test("tagged JSON", async (t) => {
+  await t.step("serializes options and results", () => {
+    strictEqual(JSON.stringify(Some(1)), '{"Some":1}');
+    strictEqual(JSON.stringify(None()), '{"None":null}');
+    strictEqual(JSON.stringify(Ok([1])), '{"Ok":[1]}');
+    strictEqual(JSON.stringify(Err(Some("boom"))), '{"Err":{"Some":"boom"}}');
+  });
+
+  await t.step("round-trips through jsonReviver", () => {
+    const values = [
+      Some(1),
+      None(),
+      Some(null),
+      Some(None()),
+      Some(Some([1, 2])),
+      Ok(Some({ a: None() })),
+      Err(Err("nested")),
+      { retries: Some(3), timeout: None(), results: [Ok(1), Err("x")] },
+    ];
+    for (const value of values) {
+      strictEqual(equals(roundTrip(value), value), true, `${value}`);
+    }
+  });
+
+  await t.step("drops Some(undefined) like any undefined", () => {
+    strictEqual(JSON.stringify(Some(undefined)), "{}");
+    deepStrictEqual(roundTrip({ a: Some(undefined) }), { a: {} });
+  });
+
+  await t.step("revives only single tagged properties", () => {
+    deepStrictEqual(roundTrip({ Some: 1, other: 2 }), { Some: 1, other: 2 });
+    deepStrictEqual(roundTrip({ None: 1 }), { None: 1 });
+  });
+});
+
+Deno.test("nullable JSON", async (t) => {
+  const replacer = jsonReplacer({ option: "nullable" });
+
+  await t.step("serializes options as their value or null", () => {
+    const user = { name: "Bob", nickname: None(), age: Some(32) };
+    strictEqual(
+      JSON.stringify(user, replacer),
+      '{"name":"Bob","nickname":null,"age":32}',
+    );
+    strictEqual(
+      JSON.stringify([Some(new Date(0)), Ok(Some(1))], replacer),
+      '["1970-01-01T00:00:00.000Z",{"Ok":1}]',
+    );
+  });
+
+  await t.step("round-trips through Option.fromNullable", () => {
+    const user = { nickname: None<string>(), age: Some(32) };
+    const parsed = JSON.parse(JSON.stringify(user, replacer));
+    const revived = {
+      nickname: Option.fromNullable<string>(parsed.nickname),
+      age: Option.fromNullable<number>(parsed.age),
+    };
+    strictEqual(equals(revived, user), true);
+  });
+
+  await t.step("rejects options that would not read back", () => {
+    for (const value of [Some(None()), Some(Some(1)), Some(null)]) {
+      throws(() => JSON.stringify({ value }, replacer), TypeError);
+    }
+    throws(
+      () => JSON.stringify([Some(undefined)], replacer),
+      new TypeError(
+        "`Some(undefined)` can't be serialized as a nullable value",
+      ),
+    );
+  });
+});
@@ -0,0 +1,134 @@
+import { None, Option, Some } from "./option.ts";
+import { Result } from "./result.ts";
+
+/** A match arm, as built by `Pattern.arm`: returns `Some` with the result of
+ * its handler if the value matched the arm's pattern, `None` otherwise.
+ */
+export type MatchArm<T, R> = (value: T) => Option<R>;
+
+/** Patterns to destructure `Option`s and `Result`s, with guards, for use in
+ * `Option.matchWhen` and `Result.matchWhen`.
+ *
+ * A `Pattern<T, U>` tests a value of type `T` and, if it matches, extracts a
+ * value of type `U` from it. Patterns nest, `Pattern.Ok(Pattern.Some())`
+ * matches an `Ok(Some(x))` and extracts `x`, and accept guards, which is the
+ * equivalent of Rust's `Some(x) if x > 3`.
+ *
+ * ```ts
+ * let x: Result<Option<number>, string> = Ok(Some(5));
+ *
+ * let msg = x.matchWhen(
+ *    Pattern.Ok(Pattern.Some<number>().when((v) => v > 3)).arm((v) => `big ${v}`),
+ *    Pattern.Ok(Pattern.Some<number>()).arm((v) => `small ${v}`),
+ *    Pattern.Ok(Pattern.None()).arm(() => "nothing"),
+ *    Pattern.Err<string>().arm((e) => `failed: ${e}`),
+ * );
+ * console.log(msg); // big 5
+ * ```
+ */
+export class Pattern<T, U> {
+  protected constructor(private extract: (value: T) => Option<U>) {}
+
+  /** Matches any value, like `_` or a binding in Rust, and extracts it as is.
+   */
+  static any<T>(): Pattern<T, T> {
+    return new Pattern((value: T) => Some(value));
+  }
+
+  /** Matches values for which `predicate` returns `true`, and extracts them
+   * as is.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let positive = Pattern.when((x: number) => x > 0);
+   * console.log(positive.test(3).contains(3)); // true
+   * console.log(positive.test(-3).isNone()); // true
+   * ```
+   */
+  static when<T>(predicate: (value: T) => boolean): Pattern<T, T> {
+    return new Pattern((value: T) => Some(value).filter(predicate));
+  }
+
+  /** Matches a `Some` whose value matches `inner` (any value if omitted),
+   * and extracts what `inner` extracts.
+   */
+  static Some<T, U = T>(inner?: Pattern<T, U>): Pattern<Option<T>, U> {
+    return new Pattern((option: Option<T>) =>
+      option.andThen((value) => Pattern.nested(value, inner))
+    );
+  }
+
+  /** Matches a `None`, extracts `undefined`. */
+  static None<T>(): Pattern<Option<T>, undefined> {
+    return new Pattern((option: Option<T>) => {
+      if (option.isSome()) return None();
+      return Some(undefined);
+    });
+  }
+
+  /** Matches an `Ok` whose value matches `inner` (any value if omitted),
+   * and extracts what `inner` extracts.
+   */
+  static Ok<T, E = unknown, U = T>(
+    inner?: Pattern<T, U>,
+  ): Pattern<Result<T, E>, U> {
+    return new Pattern((result: Result<T, E>) =>
+      result.ok().andThen((value) => Pattern.nested(value, inner))
+    );
+  }
+
+  /** Matches an `Err` whose value matches `inner` (any value if omitted),
+   * and extracts what `inner` extracts.
+   */
+  static Err<E, T = unknown, U = E>(
+    inner?: Pattern<E, U>,
+  ): Pattern<Result<T, E>, U> {
+    return new Pattern((result: Result<T, E>) =>
+      result.err().andThen((err) => Pattern.nested(err, inner))
+    );
+  }
+
+  private static nested<T, U>(value: T, inner?: Pattern<T, U>): Option<U> {
+    if (inner == undefined) return Some(value as unknown as U);
+    return inner.test(value);
+  }
+
+  /** Tests `value` against the pattern, returning `Some` of the extracted
+   * value if it matches, `None` otherwise.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let pattern = Pattern.Ok(Pattern.Some<number>());
+   * console.log(pattern.test(Ok(Some(2))).contains(2)); // true
+   * console.log(pattern.test(Ok(None())).isNone()); // true
+   * console.log(pattern.test(Err("error")).isNone()); // true
+   * ```
+   */
+  test(this: Pattern<T, U>, value: T): Option<U> {
+    return this.extract(value);
+  }
+
+  /** Adds a guard to the pattern, it then only matches if `predicate`
+   * returns `true` for the extracted value.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let bigSome = Pattern.Some<number>().when((x) => x > 3);
+   * console.log(bigSome.test(Some(5)).contains(5)); // true
+   * console.log(bigSome.test(Some(2)).isNone()); // true
+   * ```
+   */
+  when(this: Pattern<T, U>, predicate: (value: U) => boolean): Pattern<T, U> {
+    return new Pattern((value: T) => this.test(value).filter(predicate));
+  }
+
+  /** Builds a match arm calling `f` with the extracted value when the
+   * pattern matches.
+   */
+  arm<R>(this: Pattern<T, U>, f: (value: U) => R): MatchArm<T, R> {
+    return (value: T) => this.test(value).map(f);
+  }
+}
@@ -0,0 +1,109 @@
+import { deepStrictEqual, strictEqual, throws } from "node:assert/strict";
+import { assertType, IsExact } from "./_test_util.ts";
+import { Pattern } from "./match.ts";
+import { None, Option, Some } from "./option.ts";
+import { PanicError } from "./panic.ts";
+import { Err, Ok, Result } from "./result.ts";
+
+Deno.test("match", async (t) => {
+  await t.step("calls the arm of the Option variant", () => {
+    const describe = (x: Option<number>) =>
+      x.match({ Some: (v) => `some ${v}`, None: () => "none" });
+    strictEqual(describe(Some(3)), "some 3");
+    strictEqual(describe(None()), "none");
+  });
+
+  await t.step("calls the arm of the Result variant", () => {
+    const describe = (x: Result<number, string>) =>
+      x.match({ Ok: (v) => v * 2, Err: (e) => e.length });
+    strictEqual(describe(Ok(3)), 6);
+    strictEqual(describe(Err("bar")), 3);
+  });
+
+  await t.step("requires every arm", () => {
+    const x: Result<number, string> = Ok(3);
+    // @ts-expect-error: the Err arm is missing
+    x.match({ Ok: (v) => v });
+    const y: Option<number> = Some(3);
+    // @ts-expect-error: the None arm is missing
+    y.match({ Some: (v) => v });
+  });
+});
+
+Deno.test("Pattern", async (t) => {
+  await t.step("any matches everything", () => {
+    deepStrictEqual(Pattern.any<number>().test(1), Some(1));
+  });
+
+  await t.step("when matches values satisfying the predicate", () => {
+    const positive = Pattern.when((x: number) => x > 0);
+    deepStrictEqual(positive.test(3), Some(3));
+    deepStrictEqual(positive.test(-3), None());
+  });
+
+  await t.step("Some and None match the Option variants", () => {
+    deepStrictEqual(Pattern.Some<number>().test(Some(2)), Some(2));
+    deepStrictEqual(Pattern.Some<number>().test(None()), None());
+    deepStrictEqual(Pattern.None<number>().test(None()), Some(undefined));
+    deepStrictEqual(Pattern.None<number>().test(Some(2)), None());
+  });
+
+  await t.step("Ok and Err match the Result variants", () => {
+    deepStrictEqual(Pattern.Ok<number, string>().test(Ok(2)), Some(2));
+    deepStrictEqual(Pattern.Ok<number, string>().test(Err("e")), None());
+    deepStrictEqual(Pattern.Err<string, number>().test(Err("e")), Some("e"));
+    deepStrictEqual(Pattern.Err<string, number>().test(Ok(2)), None());
+  });
+
+  await t.step("nests", () => {
+    const pattern = Pattern.Ok(Pattern.Some<number>());
+    assertType<
+      IsExact<typeof pattern, Pattern<Result<Option<number>, unknown>, number>>
+    >(true);
+    deepStrictEqual(pattern.test(Ok(Some(2))), Some(2));
+    deepStrictEqual(pattern.test(Ok(None())), None());
+    deepStrictEqual(pattern.test(Err("error")), None());
+  });
+
+  await t.step("guards apply to the extracted value", () => {
+    const bigSome = Pattern.Ok(Pattern.Some<number>()).when((x) => x > 3);
+    deepStrictEqual(bigSome.test(Ok(Some(5))), Some(5));
+    deepStrictEqual(bigSome.test(Ok(Some(2))), None());
+  });
+});
+
+Deno.test("matchWhen", async (t) => {
+  function describe(x: Result<Option<number>, string>): string {
+    return x.matchWhen(
+      Pattern.Ok(Pattern.Some(Pattern.when((v: number) => v > 3)))
+        .arm((v) => `big ${v}`),
+      Pattern.Ok(Pattern.Some<number>()).arm((v) => `small ${v}`),
+      Pattern.Ok(Pattern.None()).arm(() => "nothing"),
+      Pattern.Err<string>().arm((e) => `failed: ${e}`),
+    );
+  }
+
+  await t.step("returns the result of the first matching arm", () => {
+    strictEqual(describe(Ok(Some(5))), "big 5");
+    strictEqual(describe(Ok(Some(1))), "small 1");
+    strictEqual(describe(Ok(None())), "nothing");
+    strictEqual(describe(Err("boom")), "failed: boom");
+  });
+
+  await t.step("matches Options", () => {
+    const x: Option<number> = Some(5);
+    const msg = x.matchWhen(
+      Pattern.Some<number>().when((v) => v > 3).arm((v) => `big ${v}`),
+      Pattern.any<Option<number>>().arm(() => "other"),
+    );
+    strictEqual(msg, "big 5");
+  });
+
+  await t.step("panics if no arm matches", () => {
+    const x: Option<number> = Some(1);
+    throws(
+      () => x.matchWhen(Pattern.None().arm(() => "nothing")),
+      (e) => e instanceof PanicError,
+    );
+  });
+});
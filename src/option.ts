@@ -1,5 +1,26 @@
+import { AsyncResult } from "./asyncResult.ts";
+import { Eq, equals, Ord, Ordering, partialCompare } from "./cmp.ts";
+import { ContextError } from "./context.ts";
+import { Debug, debug, denoCustomInspect, nodeCustomInspect } from "./debug.ts";
+import { Default, defaultOf, DefaultProvider } from "./default.ts";
+import { Iter } from "./iter.ts";
+import type { MatchArm } from "./match.ts";
 import { panic } from "./panic.ts";
-import { Err, Ok, Result } from "./result.ts";
+import { copy, Err, Ok, Result } from "./result.ts";
+
+enum OptionTag {
+  None,
+  Some,
+}
+
+// Type-only brand keeping `Some` and `None` apart, a `None<T>` being
+// structurally a `Some<unknown>` otherwise.
+declare const variant: unique symbol;
+
+type SomeType<O> = O extends Option<infer T> ? T : never;
+
+/** JSON representation of an `Option<T>`, as returned by `Option.toJSON`. */
+export type OptionJSON<T> = { Some: T } | { None: null };
 
 /** Optional values.
 *
@@ -31,25 +52,194 @@ import { Err, Ok, Result } from "./result.ts";
 * let result = divide(2.0, 3.0);
 *
 * if (result.isSome()) {
-*     console.log(result.unwrap()); // 0.6666666666666666
+*     console.log(result.value); // 0.6666666666666666
 * } else {
 *     console.log("The operation failed, for mysterious reasons."); // Never reached.
 * }
 * ```
 */
-export class Option<T> {
-  protected constructor(
-    private value?: T,
-  ) {}
+class OptionBase<T> {
+  // The value is stored flat, next to the tag, so that an option is a single
+  // allocation. `someValue` is `undefined` and must not be read on a `None`.
+  protected constructor(private tag: OptionTag, private someValue: T) {}
+
+  /** Some value `T`, `null` and `undefined` are valid values too.  */
+  static Some<T>(value: T): Some<T> {
+    return new OptionBase(OptionTag.Some, value) as Some<T>;
+  }
+
+  /** No value
+   *
+   * A new option is returned every time, not a shared one, as `insert`,
+   * `take`, `replace`... mutate options in place.
+   */
+  static None<T>(): None<T> {
+    return new OptionBase<T>(OptionTag.None, undefined as T) as None<T>;
+  }
+
+  /** Converts a nullable value into an `Option`, mapping `null` and
+   * `undefined` to `None` and any other value to `Some`.
+   *
+   * Unlike `Some`, which wraps whatever it is given, this is the way to go
+   * when `null` or `undefined` mean "no value".
+   *
+   * # Examples
+   *
+   * ```ts
+   * console.log(Option.fromNullable(2).contains(2)); // true
+   * console.log(Option.fromNullable(0).contains(0)); // true
+   * console.log(Option.fromNullable(null).isNone()); // true
+   * console.log(Option.fromNullable(undefined).isNone()); // true
+   *
+   * console.log(Some(null).isSome()); // true
+   * ```
+   */
+  static fromNullable<T>(value: T | null | undefined): Option<T> {
+    if (value == undefined) return None();
+    return Some(value);
+  }
+
+  /** Returns `None`, the default `Option`, see `Default`.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let x: Option<Option<number>> = None();
+   * console.log(x.unwrapOrDefault(Option).isNone()); // true
+   * ```
+   */
+  static [Default]<T>(): Option<T> {
+    return None();
+  }
+
+  /** Converts the JSON representation of an option, as returned by `toJSON`,
+   * back into an `Option`.
+   *
+   * Options nested in the value are left as is, parse with `jsonReviver` to
+   * revive them too.
+   *
+   * # Panics (throws)
+   *
+   * Panics if `json` is neither `{ Some: value }` nor `{ None: null }`.
+   *
+   * # Examples
+   *
+   * ```ts
+   * console.log(Option.fromJSON({ Some: 2 }).contains(2)); // true
+   * console.log(Option.fromJSON(JSON.parse('{"None":null}')).isNone()); // true
+   * ```
+   */
+  static fromJSON<T>(json: OptionJSON<T>): Option<T> {
+    if (typeof json == "object" && json && Object.keys(json).length == 1) {
+      if ("Some" in json) return Some(json.Some);
+      if ("None" in json && json.None === null) return None();
+    }
+    return panic(`invalid \`Option\` JSON: ${JSON.stringify(json)}`);
+  }
+
+  /** Runs a generator function in which `yield* option.try()` unwraps a
+   * `Some` or short-circuits on a `None`, emulating Rust's `?` operator.
+   *
+   * Returns `Some` of the generator's return value if every tried option was
+   * `Some`, `None` otherwise.
+   *
+   * # Examples
+   *
+   * ```ts
+   * function first<T>(values: T[]): Option<T> {
+   *    return values.length ? Some(values[0]) : None();
+   * }
+   *
+   * let sum = Option.gen(function* () {
+   *    const a = yield* first([1, 2]).try();
+   *    const b = yield* first([a + 2]).try();
+   *    return a + b;
+   * });
+   * console.log(sum.contains(4)); // true
+   *
+   * let none = Option.gen(function* () {
+   *    const a = yield* first<number>([]).try();
+   *    console.log("never reached");
+   *    return a;
+   * });
+   * console.log(none.isNone()); // true
+   * ```
+   */
+  static gen<T>(body: () => Generator<Option<never>, T, unknown>): Option<T> {
+    const generator = body();
+    const next = generator.next();
+    if (next.done) return Some(next.value);
+    generator.return(undefined as unknown as T);
+    return None();
+  }
 
-  /** Some value `T`  */
-  static Some<T>(value: T): Option<T> {
-    return new Option(value);
+  /** Collects an iterable of options into an option of an array, `Some` of
+   * all the values if every option is `Some`, `None` as soon as one is
+   * `None`.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let x = Option.collect([Some(1), Some(2), Some(3)]);
+   * console.log(x.unwrap()); // [ 1, 2, 3 ]
+   *
+   * let y = Option.collect(new Set([Some(1), None(), Some(3)]));
+   * console.log(y.isNone()); // true
+   * ```
+   */
+  static collect<T>(options: Iterable<Option<T>>): Option<T[]> {
+    const values: T[] = [];
+    for (const option of options) {
+      if (option.tag == OptionTag.None) return None();
+      values.push(option.someValue);
+    }
+    return Some(values);
   }
 
-  /** No value  */
-  static None<T>(): Option<T> {
-    return new Option();
+  /** Combines a tuple, array or object of options into an option of the same
+   * shape, `Some` if every option is `Some`, `None` otherwise.
+   *
+   * The type of each element or field is kept.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let x = Option.all([Some(1), Some("hi")]); // Option<[number, string]>
+   * console.log(x.unwrap()); // [ 1, "hi" ]
+   *
+   * let y = Option.all({ id: Some(1), name: None<string>() }); // Option<{ id: number; name: string }>
+   * console.log(y.isNone()); // true
+   * ```
+   */
+  static all<O extends readonly Option<unknown>[] | []>(
+    options: O,
+  ): Option<{ -readonly [K in keyof O]: SomeType<O[K]> }>;
+  static all<O extends Record<string, Option<unknown>>>(
+    options: O,
+  ): Option<{ [K in keyof O]: SomeType<O[K]> }>;
+  static all(
+    options: readonly Option<unknown>[] | Record<string, Option<unknown>>,
+  ): Option<unknown> {
+    if (Array.isArray(options)) return Option.collect(options);
+    const entries = Object.entries(options).map(([key, option]) =>
+      option.map((value) => [key, value] as const)
+    );
+    return Option.collect(entries).map(Object.fromEntries);
+  }
+
+  /** Returns the values of the `Some`s of an iterable of options, dropping
+   * the `None`s.
+   *
+   * # Examples
+   *
+   * ```ts
+   * console.log(Option.values([Some(1), None(), Some(3)])); // [ 1, 3 ]
+   * ```
+   */
+  static values<T>(options: Iterable<Option<T>>): T[] {
+    const values: T[] = [];
+    for (const option of options) values.push(...option);
+    return values;
   }
 
   /** Returns `true` if the option is a `Some` value.
@@ -63,9 +253,36 @@ export class Option<T> {
    * let y: Option<number> = None();
    * console.log(y.isSome()); // false
    * ```
+   *
+   * It narrows the option to `Some`, giving access to its `value`:
+   *
+   * ```ts
+   * let x: Option<number> = Some(2);
+   * if (x.isSome()) console.log(x.value); // 2
+   * ```
    */
-  isSome(this: Option<T>): boolean {
-    return this.value != undefined;
+  isSome(this: Option<T>): this is Some<T> {
+    return this.tag == OptionTag.Some;
+  }
+
+  /** Returns `true` if the option is a `Some` and the value inside of it
+   * matches a predicate.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let x: Option<number> = Some(2);
+   * console.log(x.isSomeAnd((x) => x > 1)); // true
+   *
+   * let x: Option<number> = Some(0);
+   * console.log(x.isSomeAnd((x) => x > 1)); // false
+   *
+   * let x: Option<number> = None();
+   * console.log(x.isSomeAnd((x) => x > 1)); // false
+   * ```
+   */
+  isSomeAnd(this: Option<T>, f: (arg: T) => boolean): boolean {
+    return this.tag == OptionTag.Some && f(this.someValue);
   }
 
   /** Returns `true` if the option is a `None` value.
@@ -80,12 +297,48 @@ export class Option<T> {
    * console.log(y.isNone()); // true
    * ```
    */
-  isNone(this: Option<T>): boolean {
+  isNone(this: Option<T>): this is None<T> {
     return !this.isSome();
   }
 
+  /** Returns `true` if the option is a `None` or the value inside of it
+   * matches a predicate.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let x: Option<number> = Some(2);
+   * console.log(x.isNoneOr((x) => x > 1)); // true
+   *
+   * let x: Option<number> = Some(0);
+   * console.log(x.isNoneOr((x) => x > 1)); // false
+   *
+   * let x: Option<number> = None();
+   * console.log(x.isNoneOr((x) => x > 1)); // true
+   * ```
+   */
+  isNoneOr(this: Option<T>, f: (arg: T) => boolean): boolean {
+    return this.tag == OptionTag.None || f(this.someValue);
+  }
+
+  /** The contained value if the option is a `Some`, `undefined` otherwise.
+   *
+   * Narrow the option with `isSome` to get it as a `T`, without panicking.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let x: Option<number> = Some(2);
+   * if (x.isSome()) console.log(x.value + 1); // 3
+   * console.log(None().value); // undefined
+   * ```
+   */
+  get value(): T | undefined {
+    return this.tag == OptionTag.Some ? this.someValue : undefined;
+  }
+
   /** Returns `true` if the option is a `Some` value containing the given value.
-   * (checked with the loose equalty operator `==`);
+   * (checked with structural equality, see `equals`);
    *
    *
    * # Examples
@@ -99,10 +352,86 @@ export class Option<T> {
    *
    * let x: Option<number> = None;
    * console.log(x.contains(2)); // false
+   *
+   * let x = Some({ id: 1 });
+   * console.log(x.contains({ id: 1 })); // true
    * ```
    */
   contains<U>(this: Option<T>, x: U | T): boolean {
-    return this.isSome() && this.value == x;
+    return this.tag == OptionTag.Some && equals(this.someValue, x);
+  }
+
+  /** Returns `true` if both options are `None`, or if both are `Some` with
+   * structurally equal values, see `equals`.
+   *
+   * # Examples
+   *
+   * ```ts
+   * console.log(Some([1, 2]).eq(Some([1, 2]))); // true
+   * console.log(Some([1, 2]).eq(Some([2, 1]))); // false
+   * console.log(None().eq(None())); // true
+   * console.log(Some(1).eq(None())); // false
+   * ```
+   */
+  eq(this: Option<T>, other: Option<T>): boolean {
+    if (this.tag == OptionTag.None) {
+      return other.tag == OptionTag.None;
+    }
+    return other.tag == OptionTag.Some &&
+      equals(this.someValue, other.someValue);
+  }
+
+  [Eq](this: Option<T>, other: unknown): boolean {
+    return other instanceof OptionBase && this.eq(other as Option<T>);
+  }
+
+  /** Compares `self` and `other`, `None` being less than any `Some` and two
+   * `Some`s being ordered by their values, see `compare`.
+   *
+   * # Panics (throws)
+   *
+   * Panics if the contained values cannot be compared, use `partialCmp` to
+   * handle this case.
+   *
+   * # Examples
+   *
+   * ```ts
+   * console.log(None().cmp(Some(0))); // Ordering.Less
+   * console.log(Some(2).cmp(Some(1))); // Ordering.Greater
+   *
+   * let x = [Some(3), None(), Some(1)];
+   * x.sort((a, b) => a.cmp(b)); // [ None, Some(1), Some(3) ]
+   * ```
+   */
+  cmp(this: Option<T>, other: Option<T>): Ordering {
+    const ordering = this[Ord](other);
+    if (ordering == undefined) {
+      panic(`cannot compare \`${this}\` with \`${other}\``);
+    }
+    return ordering;
+  }
+
+  /** Compares `self` and `other` like `cmp`, returning `None` if the
+   * contained values cannot be compared.
+   *
+   * # Examples
+   *
+   * ```ts
+   * console.log(Some(1).partialCmp(None()).contains(Ordering.Greater)); // true
+   * console.log(Some(NaN).partialCmp(Some(1)).isNone()); // true
+   * ```
+   */
+  partialCmp(this: Option<T>, other: Option<T>): Option<Ordering> {
+    return Option.fromNullable(this[Ord](other));
+  }
+
+  [Ord](this: Option<T>, other: unknown): Ordering | undefined {
+    if (!(other instanceof OptionBase)) return undefined;
+    if (this.tag == OptionTag.None) {
+      return other.tag == OptionTag.None ? Ordering.Equal : Ordering.Less;
+    }
+    if (other.tag == OptionTag.None) return Ordering.Greater;
+    return partialCompare(this.someValue, other.someValue);
   }
 
   /** Returns the contained `Some` value.
@@ -123,8 +452,33 @@ export class Option<T> {
    * ```
    */
   expect(this: Option<T>, msg: string): T {
-    if (this.value == undefined) panic(msg);
-    return this.value;
+    if (this.tag == OptionTag.None) panic(msg);
+    return this.someValue;
+  }
+
+  /** Consumes `self` while expecting `None` and returning nothing.
+   *
+   * # Panics (throws)
+   *
+   * Panics if the value is a `Some`, with a panic message including the
+   * passed message, and the content of the `Some`.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let squares = new Map<number, number>();
+   * for (let i of [1, 2, 3]) {
+   *    Option.fromNullable(squares.get(i)).expectNone("duplicate key");
+   *    squares.set(i, i * i);
+   * }
+   *
+   * Some(3).expectNone("duplicate key"); // panics with `duplicate key: 3`
+   * ```
+   */
+  expectNone(this: Option<T>, msg: string): void {
+    if (this.tag == OptionTag.Some) {
+      panic(`${msg}: ${debug(this.someValue)}`, this.someValue);
+    }
   }
 
   /** Returns the contained `Some` value.
@@ -164,7 +518,8 @@ export class Option<T> {
    * ```
    */
   unwrapOr(this: Option<T>, defaultValue: T): T {
-    return this.value ?? defaultValue;
+    if (this.tag == OptionTag.None) return defaultValue;
+    return this.someValue;
   }
 
   /** Returns the contained `Some` value or computes it from a callback.
@@ -178,7 +533,32 @@ export class Option<T> {
    * ```
    */
   unwrapOrElse(this: Option<T>, f: () => T): T {
-    return this.value ?? f();
+    if (this.tag == OptionTag.None) return f();
+    return this.someValue;
+  }
+
+  /** Returns the contained `Some` value or the default value given by
+   * `provider`, see `defaultOf`.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let x: Option<number> = None();
+   * let y: Option<number> = Some(12);
+   *
+   * console.log(x.unwrapOrDefault(Number)); // 0
+   * console.log(y.unwrapOrDefault(Number)); // 12
+   * console.log(None<string[]>().unwrapOrDefault(Array)); // []
+   * ```
+   */
+  // Generic over `U` rather than using `T`, as `DefaultProvider<T>` would
+  // make `Option` invariant in `T`.
+  unwrapOrDefault<U extends T>(
+    this: Option<U>,
+    provider: DefaultProvider<U>,
+  ): U {
+    if (this.tag == OptionTag.None) return defaultOf(provider);
+    return this.someValue;
   }
 
   /** Maps an `Option<T>` to `Option<U>` by applying a function to a contained value.
@@ -196,12 +576,36 @@ export class Option<T> {
    *
    * console.log(maybeSomeLen.contains(13)); // true
    * ```
+   *
+   * Mapping a narrowed `Some` gives a `Some`, and a `None` a `None`.
    */
+  map<U>(this: Some<T>, f: (arg: T) => U): Some<U>;
+  map<U>(this: None<T>, f: (arg: T) => U): None<U>;
+  map<U>(this: Option<T>, f: (arg: T) => U): Option<U>;
   map<U>(this: Option<T>, f: (arg: T) => U): Option<U> {
-    if (this.value == undefined) {
-      return None();
-    }
-    return Some(f(this.value));
+    if (this.tag == OptionTag.None) return None();
+    return Some(f(this.someValue));
+  }
+
+  /** Calls `f` with the contained value if `Some`, then returns the option.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let list = [1, 2, 3];
+   *
+   * // prints "got: 2"
+   * let x = Option.fromNullable(list[1])
+   *    .inspect((x) => console.log(`got: ${x}`))
+   *    .expect("list should be long enough");
+   *
+   * // prints nothing
+   * Option.fromNullable(list[5]).inspect((x) => console.log(`got: ${x}`));
+   * ```
+   */
+  inspect(this: Option<T>, f: (arg: T) => void): Option<T> {
+    if (this.tag == OptionTag.Some) f(this.someValue);
+    return this;
   }
 
   /** Returns the provided default result (if none),
@@ -222,7 +626,8 @@ export class Option<T> {
    * ```
    */
   mapOr<U>(this: Option<T>, defaultValue: U, f: (arg: T) => U): U {
-    return this.map(f).unwrapOr(defaultValue);
+    if (this.tag == OptionTag.None) return defaultValue;
+    return f(this.someValue);
   }
 
   /** Computes a default function result (if none), or
@@ -241,10 +646,84 @@ export class Option<T> {
    * ```
    */
   mapOrElse<U>(this: Option<T>, defaultValue: () => U, f: (arg: T) => U): U {
-    if (this.value == undefined) {
-      return defaultValue();
+    if (this.tag == OptionTag.None) return defaultValue();
+    return f(this.someValue);
+  }
+
+  /** Returns the default value given by `provider` (if none), or applies a
+   * function to the contained value (if any).
+   *
+   * # Examples
+   *
+   * ```ts
+   * let x: Option<string> = Some("hi");
+   * let y: Option<string> = None();
+   *
+   * console.log(x.mapOrDefault(Number, (s) => s.length)); // 2
+   * console.log(y.mapOrDefault(Number, (s) => s.length)); // 0
+   * ```
+   */
+  mapOrDefault<U>(
+    this: Option<T>,
+    provider: DefaultProvider<U>,
+    f: (arg: T) => U,
+  ): U {
+    if (this.tag == OptionTag.None) return defaultOf(provider);
+    return f(this.someValue);
+  }
+
+  /** Calls the arm matching the variant of the option, `Some` with the
+   * contained value or `None`, and returns its result.
+   *
+   * Both arms are required, so the match is exhaustive.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let x = Some(3);
+   * console.log(x.match({ Some: (v) => v * 2, None: () => 0 })); // 6
+   *
+   * let y: Option<number> = None();
+   * console.log(y.match({ Some: (v) => v * 2, None: () => 0 })); // 0
+   * ```
+   */
+  match<R>(
+    this: Option<T>,
+    arms: { Some: (value: T) => R; None: () => R },
+  ): R {
+    if (this.tag == OptionTag.None) return arms.None();
+    return arms.Some(this.someValue);
+  }
+
+  /** Tries each arm in order and returns the result of the first one whose
+   * pattern matches, see `Pattern` for guards and nested patterns.
+   *
+   * # Panics
+   *
+   * Panics if no arm matches, end the arms with `Pattern.any()` to avoid it.
+   *
+   * # Examples
+   *
+   * ```ts
+   * function describe(x: Option<number>): string {
+   *    return x.matchWhen(
+   *       Pattern.Some<number>().when((v) => v > 3).arm((v) => `big ${v}`),
+   *       Pattern.Some<number>().arm((v) => `small ${v}`),
+   *       Pattern.None().arm(() => "nothing"),
+   *    );
+   * }
+   *
+   * console.log(describe(Some(5))); // big 5
+   * console.log(describe(Some(1))); // small 1
+   * console.log(describe(None())); // nothing
+   * ```
+   */
+  matchWhen<R>(this: Option<T>, ...arms: MatchArm<Option<T>, R>[]): R {
+    for (const arm of arms) {
+      const matched = arm(this);
+      if (matched.isSome()) return matched.unwrap();
     }
-    return f(this.value);
+    return panic(`no match arm matched \`${this}\``);
   }
 
   /** Transforms the `Option<T>` into a `Result<T, E>`, mapping `Some(v)` to
@@ -263,12 +742,16 @@ export class Option<T> {
    * let y: Option<string> = None();
    * console.log(y.okOr(0).isErr()); // true
    * ```
+   *
+   * It is the inverse of `Result.ok`, a `Some` giving an `Ok` and a `None`
+   * an `Err`.
    */
+  okOr<E>(this: Some<T>, error: E): Ok<T, E>;
+  okOr<E>(this: None<T>, error: E): Err<T, E>;
+  okOr<E>(this: Option<T>, error: E): Result<T, E>;
   okOr<E>(this: Option<T>, error: E): Result<T, E> {
-    if (this.value == undefined) {
-      return Err(error);
-    }
-    return Ok(this.value);
+    if (this.tag == OptionTag.None) return Err(error);
+    return Ok(this.someValue);
   }
 
   /** Transforms the `Option<T>` into a `Result<T, E>`, mapping `Some(v)` to
@@ -284,35 +767,113 @@ export class Option<T> {
    * console.log(y.okOrElse(() => 0).containsErr(0)); //true
    * ```
    */
+  okOrElse<E>(this: Some<T>, error: () => E): Ok<T, E>;
+  okOrElse<E>(this: None<T>, error: () => E): Err<T, E>;
+  okOrElse<E>(this: Option<T>, error: () => E): Result<T, E>;
   okOrElse<E>(this: Option<T>, error: () => E): Result<T, E> {
-    if (this.value == undefined) {
-      return Err(error());
-    }
-    return Ok(this.value);
+    if (this.tag == OptionTag.None) return Err(error());
+    return Ok(this.someValue);
   }
 
-  /** Returns an iterator over the possibly contained value.
+  /** Transforms the `Option<T>` into an `AsyncResult<T, E>`, mapping
+   * `Some(v)` to `Ok(v)` and `None` to `Err` of what `error` returns or
+   * resolves to, `error` being only called on a `None`. Like with an async
+   * function, `error` throwing rejects the `AsyncResult`.
+   *
+   * # Examples
+   *
+   * ```ts
+   * async function describeMissing(key: string): Promise<string> {
+   *    return `no value for ${key}`;
+   * }
+   *
+   * let x = Some("foo");
+   * console.log(await x.okOrElseAsync(() => describeMissing("x")).unwrap()); // foo
+   *
+   * let y: Option<string> = None();
+   * console.log(await y.okOrElseAsync(() => describeMissing("y")).unwrapErr()); // no value for y
+   * ```
+   */
+  okOrElseAsync<E>(
+    this: Option<T>,
+    error: () => E | PromiseLike<E>,
+  ): AsyncResult<T, E> {
+    if (this.tag == OptionTag.Some) return AsyncResult.Ok(this.someValue);
+    const promise = new Promise<E>((resolve) => resolve(error()));
+    return AsyncResult.from(promise.then((err) => Err<T, E>(err)));
+  }
+
+  /** Transforms the `Option<T>` into a `Result<T, ContextError>`, mapping
+   * `Some(v)` to `Ok(v)` and `None` to `Err` of a `ContextError` with the
+   * message `context`.
+   *
+   * Arguments passed to `context` are eagerly evaluated; if you are passing
+   * the result of a function call, it is recommended to use `withContext`,
+   * which is lazily evaluated.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let x: Option<string> = None();
+   * console.log(x.context("missing HOME").unwrapErr().message); // missing HOME
+   * ```
+   */
+  context(this: Option<T>, context: string): Result<T, ContextError> {
+    return this.okOrElse(() => new ContextError(context));
+  }
+
+  /** Transforms the `Option<T>` into a `Result<T, ContextError>`, mapping
+   * `Some(v)` to `Ok(v)` and `None` to `Err` of a `ContextError` with the
+   * message returned by `f`.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let name = "HOME";
+   * let x: Option<string> = None();
+   * console.log(x.withContext(() => `missing ${name}`).unwrapErr().message); // missing HOME
+   * ```
+   */
+  withContext(this: Option<T>, f: () => string): Result<T, ContextError> {
+    return this.okOrElse(() => new ContextError(f()));
+  }
+
+  /** Returns an `Iter` over the possibly contained value.
    *
    * # Examples
    *
    * ```ts
    * let x = Some(4);
-   * console.log(x.iter().next().value); // 4
+   * console.log(x.iter().next().unwrap()); // 4
    *
    * let y: Option<number> = None();
-   * console.log(y.iter().next().done); // true
+   * console.log(y.iter().next().isNone()); // true
    *
    * for (let value of Some(42)) {
    *    console.log(value); // 42
    * }
    * ```
    */
-  iter(this: Option<T>): Iterable<T> {
-    return this[Symbol.iterator]();
+  iter(this: Option<T>): Iter<T> {
+    return Iter.from(this);
   }
 
-  *[Symbol.iterator](this: Option<T>): Iterable<T> {
-    if (this.value != undefined) yield this.value;
+  /** Returns an array of the possibly contained value, with one element if
+   * the option is a `Some`, none otherwise. This is Rust's `as_slice`.
+   *
+   * # Examples
+   *
+   * ```ts
+   * console.log(Some(1234).toArray()); // [ 1234 ]
+   * console.log(None().toArray()); // []
+   * ```
+   */
+  toArray(this: Option<T>): T[] {
+    return this.tag == OptionTag.Some ? [this.someValue] : [];
+  }
+
+  *[Symbol.iterator](this: Option<T>): IterableIterator<T> {
+    if (this.tag == OptionTag.Some) yield this.someValue;
   }
 
   /** Returns `None` if the option is `None`, otherwise returns `optb`.
@@ -362,10 +923,16 @@ export class Option<T> {
    * console.log(Some(2).andThen(nope).andThen(sq).isNone()); // true
    * console.log(None().andThen(sq).andThen(sq).isNone()); // true
    * ```
+   *
+   * Chaining a narrowed `Some` with a function always returning a `Some`
+   * gives a `Some`, and chaining a `None` a `None`.
    */
+  andThen<U>(this: Some<T>, optb: (arg: T) => Some<U>): Some<U>;
+  andThen<U>(this: None<T>, optb: (arg: T) => Option<U>): None<U>;
+  andThen<U>(this: Option<T>, optb: (arg: T) => Option<U>): Option<U>;
   andThen<U>(this: Option<T>, optb: (arg: T) => Option<U>): Option<U> {
-    if (this.value == undefined) return None();
-    return optb(this.value);
+    if (this.tag == OptionTag.None) return None();
+    return optb(this.someValue);
   }
 
   /** Returns `None` if the option is `None`, otherwise calls `predicate`
@@ -388,8 +955,12 @@ export class Option<T> {
    * ```
    */
   filter(this: Option<T>, predicate: (arg: T) => boolean): Option<T> {
-    if (this.value == undefined || !predicate(this.value)) return None();
-    return Some(this.value);
+    if (
+      this.tag == OptionTag.None || !predicate(this.someValue)
+    ) {
+      return None();
+    }
+    return Some(this.someValue);
   }
 
   /** Returns the option if it contains a value, otherwise returns `optb`.
@@ -492,8 +1063,9 @@ export class Option<T> {
    * ```
    */
   insert(this: Option<T>, value: T): T {
-    this.value = value;
-    return this.value;
+    this.tag = OptionTag.Some;
+    this.someValue = value;
+    return value;
   }
 
   /** Inserts `value` into the option if it is `None`, then
@@ -518,8 +1090,8 @@ export class Option<T> {
    * ```
    */
   getOrInsert(this: Option<T>, value: T): T {
-    if (this.value == undefined) return this.insert(value);
-    return this.value;
+    if (this.tag == OptionTag.None) return this.insert(value);
+    return this.someValue;
   }
 
   /** Inserts a value computed from `f` into the option if it is `None`,
@@ -541,8 +1113,28 @@ export class Option<T> {
    * ```
    */
   getOrInsertWith(this: Option<T>, f: () => T): T {
-    if (this.value == undefined) return this.insert(f());
-    return this.value;
+    if (this.tag == OptionTag.None) return this.insert(f());
+    return this.someValue;
+  }
+
+  /** Inserts the default value given by `provider` into the option if it is
+   * `None`, then returns the contained value.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let x: Option<number[]> = None();
+   *
+   * x.getOrInsertDefault(Array).push(7);
+   * console.log(x.unwrap()); // [ 7 ]
+   * ```
+   */
+  getOrInsertDefault<U extends T>(
+    this: Option<U>,
+    provider: DefaultProvider<U>,
+  ): U {
+    if (this.tag == OptionTag.None) return this.insert(defaultOf(provider));
+    return this.someValue;
   }
 
   /** Takes the value out of the option, leaving a `None` in its place.
@@ -562,11 +1154,35 @@ export class Option<T> {
    * ```
    */
   take(this: Option<T>): Option<T> {
-    const newOption = new Option(this.value);
-    this.value = undefined;
+    const newOption = new OptionBase(this.tag, this.someValue) as Option<T>;
+    this.tag = OptionTag.None;
+    this.someValue = undefined as T;
     return newOption;
   }
 
+  /** Takes the value out of the option, leaving a `None` in its place, but
+   * only if `predicate` returns `true` for the value. Otherwise, returns
+   * `None` and leaves the option untouched.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let x = Some(42);
+   *
+   * let prev = x.takeIf((v) => v == 42);
+   * console.log(prev.contains(42)); // true
+   * console.log(x.isNone()); // true
+   *
+   * let y = Some(43);
+   * console.log(y.takeIf((v) => v == 42).isNone()); // true
+   * console.log(y.contains(43)); // true
+   * ```
+   */
+  takeIf(this: Option<T>, predicate: (arg: T) => boolean): Option<T> {
+    if (this.isSomeAnd(predicate)) return this.take();
+    return None();
+  }
+
   /** Replaces the actual value in the option by the value given in parameter,
    * returning the old value if present,
    * leaving a `Some` in its place without deinitializing either one.
@@ -586,8 +1202,8 @@ export class Option<T> {
    * ```
    */
   replace(this: Option<T>, value: T): Option<T> {
-    const oldOption = new Option(this.value);
-    this.value = value;
+    const oldOption = new OptionBase(this.tag, this.someValue) as Option<T>;
+    this.insert(value);
     return oldOption;
   }
 
@@ -608,10 +1224,12 @@ export class Option<T> {
    * ```
    */
   zip<U>(this: Option<T>, other: Option<U>): Option<[T, U]> {
-    if (this.value == undefined || other.value == undefined) {
+    if (
+      this.tag == OptionTag.None || other.tag == OptionTag.None
+    ) {
       return None();
     }
-    return Some([this.value, other.value]);
+    return Some([this.someValue, other.someValue]);
   }
 
   /** Zips `self` and another `Option` with function `f`.
@@ -642,10 +1260,75 @@ export class Option<T> {
     other: Option<U>,
     f: (lhs: T, rhs: U) => R,
   ): Option<R> {
-    if (this.value == undefined || other.value == undefined) {
+    if (
+      this.tag == OptionTag.None || other.tag == OptionTag.None
+    ) {
       return None();
     }
-    return Some(f(this.value, other.value));
+    return Some(f(this.someValue, other.someValue));
+  }
+
+  /** Unzips an option containing a tuple of two values.
+   *
+   * If `self` is `Some([a, b])` this method returns `[Some(a), Some(b)]`.
+   * Otherwise, `[None, None]` is returned.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let x = Some<[number, string]>([1, "hi"]);
+   * let y = None<[number, number]>();
+   *
+   * console.log(x.unzip()); // [ Some(1), Some("hi") ]
+   * console.log(y.unzip()); // [ None, None ]
+   * ```
+   */
+  unzip<A, B>(this: Option<[A, B]>): [Option<A>, Option<B>] {
+    if (this.tag == OptionTag.None) return [None(), None()];
+    const [a, b] = this.someValue;
+    return [Some(a), Some(b)];
+  }
+
+  /** Maps an `Option<T>` to an `Option<T>` holding a shallow copy of the
+   * contained value, made like `Result.copied` does.
+   *
+   * # Panics
+   *
+   * Panics if the value is a `Promise`, `WeakMap`, `WeakSet` or `WeakRef`,
+   * whose contents can't be copied.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let point = { x: 1, y: 2 };
+   * let x = Some(point).copied();
+   * x.unwrap().x = 3;
+   * console.log(point.x); // 1
+   * ```
+   */
+  copied(this: Option<T>): Option<T> {
+    return this.map(copy);
+  }
+
+  /** Maps an `Option<T>` to an `Option<T>` holding a deep copy of the
+   * contained value, made with `structuredClone`.
+   *
+   * # Panics (throws)
+   *
+   * Throws a `DOMException` if the value can't be cloned, like functions.
+   * Class instances are cloned into plain objects.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let config = { server: { port: 80 } };
+   * let x = Some(config).cloned();
+   * x.unwrap().server.port = 8080;
+   * console.log(config.server.port); // 80
+   * ```
+   */
+  cloned(this: Option<T>): Option<T> {
+    return this.map((value) => structuredClone(value));
   }
 
   /** Transposes an `Option` of a `Result` into a `Result` of an `Option`.
@@ -664,10 +1347,10 @@ export class Option<T> {
    * y = y.transpose();
    * ```
    */
-  transpose<E>(this: Option<Result<T, E>>): Result<Option<T>, E> {
-    if (this.value == undefined) return Ok(None());
-    if (this.value.isOk()) return Ok(Some(this.value.unwrap()));
-    return Err(this.value.unwrapErr());
+  transpose<U, E>(this: Option<Result<U, E>>): Result<Option<U>, E> {
+    if (this.tag == OptionTag.None) return Ok(None());
+    if (this.someValue.isOk()) return Ok(Some(this.someValue.unwrap()));
+    return Err(this.someValue.unwrapErr());
   }
 
   /** Converts from `Option<Option<T>>` to `Option<T>`
@@ -695,17 +1378,86 @@ export class Option<T> {
    * console.log(x.flatten().flatten().contains(6)); // true;
    * ```
    */
-  flatten(this: Option<Option<T>>): Option<T> {
-    if (this.value instanceof Option) {
-      return this.value;
+  flatten<U>(this: Option<Option<U>>): Option<U> {
+    if (this.tag == OptionTag.None) return None();
+    return this.someValue;
+  }
+
+  /** Unwraps a `Some` or short-circuits the enclosing `Option.gen` on a
+   * `None`, to be used with `yield*`, see `Option.gen`.
+   */
+  *try(this: Option<T>): Generator<Option<never>, T, unknown> {
+    if (this.tag == OptionTag.None) {
+      yield None();
+      return panic("`Option.gen` resumed after a `None`");
     }
-    return this as unknown as Option<T>;
+    return this.someValue;
+  }
+
+  /** Returns the JSON representation of the option, `{ "Some": value }` or
+   * `{ "None": null }`, which `JSON.stringify` uses.
+   *
+   * Pass `jsonReplacer({ option: "nullable" })` to `JSON.stringify` to
+   * serialize options as their value or `null` instead.
+   *
+   * # Examples
+   *
+   * ```ts
+   * console.log(JSON.stringify(Some(1))); // {"Some":1}
+   * console.log(JSON.stringify({ x: None() })); // {"x":{"None":null}}
+   * ```
+   */
+  toJSON(this: Option<T>): OptionJSON<T> {
+    if (this.tag == OptionTag.None) return { None: null };
+    return { Some: this.someValue };
+  }
+
+  [Debug](this: Option<T>, format: (value: unknown) => string): string {
+    if (this.tag == OptionTag.None) return "None";
+    return `Some(${format(this.someValue)})`;
+  }
+
+  [denoCustomInspect](this: Option<T>): string {
+    return debug(this);
+  }
+
+  [nodeCustomInspect](this: Option<T>): string {
+    return debug(this);
   }
 
+  /** Returns the debug representation of the option, see `debug`.
+   *
+   * # Examples
+   *
+   * ```ts
+   * console.log(`${Some({ a: 1 })}`); // Some({ a: 1 })
+   * console.log(`${Some("foo")}`); // Some("foo")
+   * ```
+   */
   toString(this: Option<T>): string {
-    if (this.isNone()) return "None";
-    return `Some(${this.value})`;
+    return debug(this);
   }
 }
 
+/** An `Option` holding a value, as narrowed by `Option.isSome`.
+ *
+ * `insert`, `take`, `replace`... mutate options in place, changing their
+ * variant: narrowings don't survive them.
+ */
+export interface Some<T> extends OptionBase<T> {
+  readonly [variant]: OptionTag.Some;
+  /** The contained value. */
+  readonly value: T;
+}
+
+/** An `Option` holding no value, as narrowed by `Option.isNone`. */
+export interface None<T> extends OptionBase<T> {
+  readonly [variant]: OptionTag.None;
+  readonly value: undefined;
+}
+
+/** An optional value, either `Some` or `None`. */
+export type Option<T> = Some<T> | None<T>;
+export const Option = OptionBase;
+
 export const { Some, None } = Option;
@@ -0,0 +1,138 @@
+import { deepStrictEqual, strictEqual } from "node:assert/strict";
+import { assertType, IsExact } from "./_test_util.ts";
+import { None, Option, Some } from "./option.ts";
+import { Err, Ok } from "./result.ts";
+
+Deno.test("nullish values are Some", () => {
+  const values: Option<unknown>[] = [
+    Some(null),
+    Some(undefined),
+    Some(0),
+    Some(""),
+  ];
+  for (const x of values) {
+    strictEqual(x.isSome(), true);
+  }
+  strictEqual(Some(null).map((x) => x ?? "fallback").unwrap(), "fallback");
+  strictEqual(Some<number | null>(null).unwrapOr(1), null);
+  deepStrictEqual(Some(undefined).zip(Some(null)).unwrap(), [undefined, null]);
+  strictEqual(Some(None()).flatten().isNone(), true);
+  strictEqual(Some(Some(undefined)).flatten().isSome(), true);
+});
+
+Deno.test("Option.fromNullable", () => {
+  const x = Option.fromNullable<number>(0);
+  assertType<IsExact<typeof x, Option<number>>>(true);
+  strictEqual(x.contains(0), true);
+  strictEqual(Option.fromNullable("").contains(""), true);
+  strictEqual(Option.fromNullable(null).isNone(), true);
+  strictEqual(Option.fromNullable(undefined).isNone(), true);
+});
+
+Deno.test("None returns a new option every time", () => {
+  const x = None<number>();
+  const y = None<number>();
+  strictEqual(x === y, false);
+  strictEqual(x.insert(1), 1);
+  deepStrictEqual(x, Some(1));
+  deepStrictEqual(y, None());
+  deepStrictEqual(None(), None());
+});
+
+Deno.test("or, orElse and xor return the receiver when it is kept", () => {
+  const x = Some(2);
+  strictEqual(x.or(Some(3)), x);
+  strictEqual(x.orElse(() => Some(3)), x);
+  strictEqual(x.xor(None()), x);
+  const y = None<number>();
+  strictEqual(y.or(x), x);
+});
+
+Deno.test("isSome and isNone narrow the option", () => {
+  const x: Option<number> = Option.fromNullable<number>(2);
+  if (x.isSome()) {
+    assertType<IsExact<typeof x, Some<number>>>(true);
+    strictEqual(x.value, 2);
+  } else {
+    assertType<IsExact<typeof x, None<number>>>(true);
+    strictEqual(x.value, undefined);
+  }
+  const y = Option.fromNullable<number>(null);
+  strictEqual(y.isNone() && y.value, undefined);
+  assertType<IsExact<typeof y.value, number | undefined>>(true);
+
+  const some = Some(1);
+  const none = None<number>();
+  assertType<IsExact<typeof some, Some<number>>>(true);
+  assertType<IsExact<typeof none, None<number>>>(true);
+  assertType<IsExact<typeof some.value, number>>(true);
+  assertType<IsExact<typeof none.value, undefined>>(true);
+});
+
+Deno.test("Option.collect", () => {
+  deepStrictEqual(Option.collect([Some(1), Some(2)]).unwrap(), [1, 2]);
+  strictEqual(Option.collect(new Set([Some(1), None()])).isNone(), true);
+  deepStrictEqual(Option.collect([]).unwrap(), []);
+});
+
+Deno.test("Option.all", () => {
+  const x = Option.all([Some(1), Some("hi")]);
+  assertType<IsExact<typeof x, Option<[number, string]>>>(true);
+  deepStrictEqual(x.unwrap(), [1, "hi"]);
+
+  const y = Option.all({ id: Some(1), name: None<string>() });
+  assertType<IsExact<typeof y, Option<{ id: number; name: string }>>>(true);
+  strictEqual(y.isNone(), true);
+  deepStrictEqual(Option.all({ id: Some(1) }).unwrap(), { id: 1 });
+});
+
+Deno.test("Option.values", () => {
+  deepStrictEqual(Option.values([Some(1), None(), Some(3)]), [1, 3]);
+});
+
+Deno.test("map, andThen, okOr and okOrElse keep Some and None apart", () => {
+  const some = Some(2).map((x) => `${x}`);
+  const none = None<number>().map((x) => `${x}`);
+  assertType<IsExact<typeof some, Some<string>>>(true);
+  assertType<IsExact<typeof none, None<string>>>(true);
+  strictEqual(some.value, "2");
+
+  const doubled = Some(2).andThen((x) => Some(x * 2));
+  const halved = Some(2).andThen((x) => x % 2 ? None<number>() : Some(x / 2));
+  assertType<IsExact<typeof doubled, Some<number>>>(true);
+  assertType<IsExact<typeof halved, Option<number>>>(true);
+  strictEqual(doubled.value, 4);
+
+  const ok = Some(1).okOr("missing");
+  const err = None<number>().okOrElse(() => "missing");
+  assertType<IsExact<typeof ok, Ok<number, string>>>(true);
+  assertType<IsExact<typeof err, Err<number, string>>>(true);
+  strictEqual(err.error, "missing");
+});
+
+Deno.test("Option.gen", async (t) => {
+  function first<T>(values: T[]): Option<T> {
+    return values.length ? Some(values[0]) : None();
+  }
+
+  await t.step("returns Some of the return value", () => {
+    const sum = Option.gen(function* () {
+      const a = yield* first([1, 2]).try();
+      const b = yield* first([a + 2]).try();
+      return a + b;
+    });
+    assertType<IsExact<typeof sum, Option<number>>>(true);
+    deepStrictEqual(sum, Some(4));
+  });
+
+  await t.step("stops at the first None", () => {
+    let reached = false;
+    const none = Option.gen(function* () {
+      const a = yield* first<number>([]).try();
+      reached = true;
+      return a;
+    });
+    deepStrictEqual(none, None());
+    strictEqual(reached, false);
+  });
+});
@@ -1,4 +1,98 @@
-/** Throws a critical logic error **not meant to be caught**. */
-export function panic(msg = "explicit panic"): never {
-  throw new Error(`Thread panicked at '${msg}'`);
+/** Where a panic happened: the first caller outside of this library. */
+export interface PanicLocation {
+  file: string;
+  line: number;
+  column: number;
+}
+
+/** The error thrown by panics, critical logic errors **not meant to be
+ * caught**, see `panic`.
+ *
+ * Besides the message, it carries the payload of the panic (the `Err` value
+ * for `Result.unwrap`, the message for an explicit `panic`) and the location
+ * of the code that caused it.
+ *
+ * ```ts
+ * try {
+ *    Err("emergency failure").unwrap();
+ * } catch (e) {
+ *    if (!(e instanceof PanicError)) throw e;
+ *    console.log(e.payload); // emergency failure
+ *    console.log(e.location); // { file: "file:///main.ts", line: 2, column: 29 }
+ * }
+ * ```
+ */
+export class PanicError extends Error {
+  override name = "PanicError";
+  readonly location: PanicLocation | undefined;
+
+  constructor(message: string, readonly payload: unknown = message) {
+    super(`Thread panicked at '${message}'`);
+    this.location = callerLocation(this.stack);
+  }
+}
+
+/** A function called with every `PanicError` before it is thrown. */
+export type PanicHook = (error: PanicError) => void;
+
+const defaultHook: PanicHook = () => {};
+let hook = defaultHook;
+
+/** Registers a panic hook, replacing the previous one.
+ *
+ * The hook is called with the `PanicError` of every panic, right before it
+ * is thrown, which is useful to log or report panics even when something up
+ * the stack catches them.
+ *
+ * # Examples
+ *
+ * ```ts
+ * setPanicHook((error) => console.error(error.message, error.location));
+ * None().unwrap(); // logs, then panics
+ * ```
+ */
+export function setPanicHook(newHook: PanicHook): void {
+  hook = newHook;
+}
+
+/** Unregisters the current panic hook and returns it, restoring the default
+ * one, which does nothing.
+ *
+ * # Examples
+ *
+ * ```ts
+ * setPanicHook(report);
+ * let previous = takePanicHook();
+ * setPanicHook((error) => {
+ *    console.error("panicked in the worker");
+ *    previous(error);
+ * });
+ * ```
+ */
+export function takePanicHook(): PanicHook {
+  const taken = hook;
+  hook = defaultHook;
+  return taken;
+}
+
+/** Throws a critical logic error **not meant to be caught**, as a
+ * `PanicError` holding `msg` and `payload`, after calling the panic hook.
+ */
+export function panic(msg = "explicit panic", payload: unknown = msg): never {
+  const error = new PanicError(msg, payload);
+  hook(error);
+  throw error;
+}
+
+const libraryUrl = new URL(".", import.meta.url).href;
+
+function callerLocation(stack = ""): PanicLocation | undefined {
+  for (const frame of stack.split("\n")) {
+    const match = frame.match(
+      /^\s+at (?:async )?(?:.*\()?(.+?):(\d+):(\d+)\)?$/,
+    );
+    if (!match || match[1].startsWith(libraryUrl)) continue;
+    return { file: match[1], line: Number(match[2]), column: Number(match[3]) };
+  }
+  return undefined;
 }
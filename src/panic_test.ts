@@ -0,0 +1,121 @@
+import { deepStrictEqual, strictEqual, throws } from "node:assert/strict";
+import { None, Some } from "./option.ts";
+import {
+  panic,
+  PanicError,
+  PanicHook,
+  setPanicHook,
+  takePanicHook,
+} from "./panic.ts";
+import { catchUnwind, Err, Ok } from "./result.ts";
+
+function withHook(hook: PanicHook, f: () => void) {
+  setPanicHook(hook);
+  try {
+    f();
+  } finally {
+    takePanicHook();
+  }
+}
+
+Deno.test("PanicError", async (t) => {
+  await t.step("carries the message and payload", () => {
+    const error = new PanicError("called `unwrap` on `None`", 42);
+    strictEqual(error.name, "PanicError");
+    strictEqual(
+      error.message,
+      "Thread panicked at 'called `unwrap` on `None`'",
+    );
+    strictEqual(error.payload, 42);
+    strictEqual(new PanicError("boom").payload, "boom");
+  });
+
+  await t.step("locates the first caller outside of the library", () => {
+    const { location } = catchUnwind(() => None().unwrap()).unwrapErr();
+    const libraryUrl = new URL(".", import.meta.url).href;
+    strictEqual(location?.file.startsWith(libraryUrl), false);
+  });
+});
+
+Deno.test("panic throws a PanicError", () => {
+  throws(() => panic(), {
+    name: "PanicError",
+    message: "Thread panicked at 'explicit panic'",
+    payload: "explicit panic",
+  });
+  throws(() => panic("boom", { code: 1 }), (e) => {
+    strictEqual(e instanceof PanicError, true);
+    deepStrictEqual((e as PanicError).payload, { code: 1 });
+    return true;
+  });
+});
+
+Deno.test("unwrap and expect panic with the payload", () => {
+  const error = new RangeError("emergency failure");
+  deepStrictEqual(
+    catchUnwind(() => Err(error).unwrap()).unwrapErr().payload,
+    error,
+  );
+  deepStrictEqual(
+    catchUnwind(() => Err(error).expect("msg")).unwrapErr().payload,
+    error,
+  );
+  strictEqual(catchUnwind(() => Ok(2).unwrapErr()).unwrapErr().payload, 2);
+  strictEqual(
+    catchUnwind(() => Ok(2).expectErr("msg")).unwrapErr().message,
+    "Thread panicked at 'msg: 2'",
+  );
+  strictEqual(catchUnwind(() => None().unwrap()).isErr(), true);
+  strictEqual(catchUnwind(() => None().expect("msg")).isErr(), true);
+});
+
+Deno.test("panic hooks", async (t) => {
+  await t.step("are called before the panic is thrown", () => {
+    const seen: PanicError[] = [];
+    withHook((error) => seen.push(error), () => {
+      const error = catchUnwind(() => panic("boom")).unwrapErr();
+      deepStrictEqual(seen, [error]);
+    });
+  });
+
+  await t.step("takePanicHook restores the default hook", () => {
+    let calls = 0;
+    const hook = () => {
+      calls++;
+    };
+    setPanicHook(hook);
+    strictEqual(takePanicHook(), hook);
+    catchUnwind(() => panic());
+    strictEqual(calls, 0);
+  });
+
+  await t.step("setPanicHook replaces the previous hook", () => {
+    const calls: string[] = [];
+    setPanicHook(() => calls.push("first"));
+    withHook(() => calls.push("second"), () => catchUnwind(() => panic()));
+    deepStrictEqual(calls, ["second"]);
+  });
+});
+
+Deno.test("catchUnwind", async (t) => {
+  await t.step("returns Ok of the return value", () => {
+    deepStrictEqual(catchUnwind(() => Some(2).unwrap()), Ok(2));
+  });
+
+  await t.step("returns Err of the PanicError", () => {
+    const error = catchUnwind(() => Err("emergency failure").unwrap())
+      .unwrapErr();
+    strictEqual(error instanceof PanicError, true);
+    strictEqual(error.payload, "emergency failure");
+  });
+
+  await t.step("rethrows other exceptions", () => {
+    throws(
+      () =>
+        catchUnwind(() => {
+          throw new TypeError("not a panic");
+        }),
+      TypeError,
+    );
+  });
+});
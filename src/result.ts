@@ -1,20 +1,49 @@
-import { panic } from "./panic.ts";
+import { AsyncResult } from "./asyncResult.ts";
+import { Eq, equals, Ord, Ordering, partialCompare } from "./cmp.ts";
+import { ContextError } from "./context.ts";
+import type { EnumError } from "./errors.ts";
+import { Debug, debug, denoCustomInspect, nodeCustomInspect } from "./debug.ts";
+import { defaultOf, DefaultProvider } from "./default.ts";
+import { Iter } from "./iter.ts";
+import type { MatchArm } from "./match.ts";
+import { panic, PanicError } from "./panic.ts";
 import { None, Option, Some } from "./option.ts";
+import { Validation } from "./validation.ts";
 
 enum ResultTag {
   Ok,
   Err,
 }
 
-interface ResultOk<T> {
-  tag: ResultTag.Ok;
-  value: T;
-}
+// Type-only brand keeping `Ok` and `Err` apart, an `Err<T, undefined>` being
+// structurally an `Ok<undefined, undefined>` otherwise.
+declare const variant: unique symbol;
 
-interface ResultErr<E> {
-  tag: ResultTag.Err;
-  err: E;
-}
+// `Ok` and `Err` are matched separately, matching `Result<infer T, infer E>`
+// infers `unknown` for the parameter left `never` by `Ok(v)` or `Err(e)`.
+type OkType<R> = R extends Ok<infer T, unknown> ? T
+  : R extends Err<infer T, unknown> ? T
+  : never;
+/** The error type of a `Result` type, or the union of the error types of a
+ * union of `Result` types.
+ */
+export type ErrType<R> = R extends Ok<unknown, infer E> ? E
+  : R extends Err<unknown, infer E> ? E
+  : never;
+
+// Any result, whatever its types. Constraining a type parameter with
+// `Result<unknown, unknown>` instead would make `Ok(1)` and `Err("x")`
+// infer `unknown` for the type they leave `never`, from the constraint.
+type AnyResult = Pick<Result<unknown, unknown>, typeof variant>;
+
+type ErrHandlers<E, U> = [E] extends [EnumError] ? {
+    [K in E["kind"]]: (...args: Extract<E, { kind: K }>["args"]) => U;
+  }
+  : never;
+
+/** JSON representation of a `Result<T, E>`, as returned by `Result.toJSON`.
+ */
+export type ResultJSON<T, E> = { Ok: T } | { Err: E };
 
 /** Error handling with the `Result` type.
  *
@@ -47,17 +76,263 @@ interface ResultErr<E> {
  * console.error(badResult.unwrapErr()); // "42 / 0 cannot be computed, denominator must be non-zero."
  * ```
  */
-export class Result<T, E> {
-  protected constructor(private result: ResultOk<T> | ResultErr<E>) {}
+class ResultBase<T, E> {
+  // The value and the error are stored flat, next to the tag, so that a
+  // result is a single allocation. Only the one matching the tag may be read.
+  protected constructor(
+    private tag: ResultTag,
+    private okValue: T,
+    private errValue: E,
+  ) {}
+
+  /** Contains the success value
+   *
+   * The error type is `never` unless the context gives it, `Ok(5)` being
+   * an `Ok<number, never>`, which is a `Result<number, E>` for any `E`.
+   */
+  static Ok<T, E = never>(value: T): Ok<T, E> {
+    return new ResultBase(ResultTag.Ok, value, undefined as E) as Ok<T, E>;
+  }
+
+  /** Contains the error value
+   *
+   * The success type is `never` unless the context gives it, `Err("boom")`
+   * being an `Err<never, string>`, which is a `Result<T, string>` for any
+   * `T`.
+   */
+  static Err<T = never, E = never>(err: E): Err<T, E> {
+    return new ResultBase(ResultTag.Err, undefined as T, err) as Err<T, E>;
+  }
+
+  /** Converts the JSON representation of a result, as returned by `toJSON`,
+   * back into a `Result`.
+   *
+   * Results nested in the value or error are left as is, parse with
+   * `jsonReviver` to revive them too.
+   *
+   * # Panics (throws)
+   *
+   * Panics if `json` is neither `{ Ok: value }` nor `{ Err: error }`.
+   *
+   * # Examples
+   *
+   * ```ts
+   * console.log(Result.fromJSON({ Ok: 2 }).contains(2)); // true
+   * console.log(Result.fromJSON(JSON.parse('{"Err":"boom"}')).containsErr("boom")); // true
+   * ```
+   */
+  static fromJSON<T, E>(json: ResultJSON<T, E>): Result<T, E> {
+    if (typeof json == "object" && json && Object.keys(json).length == 1) {
+      if ("Ok" in json) return Ok(json.Ok);
+      if ("Err" in json) return Err(json.Err);
+    }
+    return panic(`invalid \`Result\` JSON: ${JSON.stringify(json)}`);
+  }
+
+  /** Converts a Promise into an `AsyncResult`, mapping a fulfilled Promise
+   * to `Ok(value)` and a rejected one to `Err(mapError(reason))`.
+   *
+   * When `mapError` is omitted the rejection reason is kept as is, and typed
+   * as `unknown`.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let x = Result.fromPromise(Promise.resolve(2));
+   * console.log((await x).unwrap()); // 2
+   *
+   * let y = Result.fromPromise(
+   *    Promise.reject(new Error("boom")),
+   *    (e) => (e as Error).message,
+   * );
+   * console.log((await y).unwrapErr()); // boom
+   * ```
+   */
+  static fromPromise<T>(promise: PromiseLike<T>): AsyncResult<T, unknown>;
+  static fromPromise<T, E>(
+    promise: PromiseLike<T>,
+    mapError: (reason: unknown) => E,
+  ): AsyncResult<T, E>;
+  static fromPromise<T, E>(
+    promise: PromiseLike<T>,
+    mapError?: (reason: unknown) => E,
+  ): AsyncResult<T, E | unknown> {
+    return AsyncResult.from(
+      Promise.resolve(promise).then(
+        (value) => Ok(value),
+        (reason) => Err(mapError ? mapError(reason) : reason),
+      ),
+    );
+  }
+
+  /** Runs a generator function in which `yield* result.try()` unwraps an
+   * `Ok` or short-circuits on an `Err`, emulating Rust's `?` operator.
+   *
+   * Returns `Ok` of the generator's return value if every tried result was
+   * `Ok`, the first `Err` otherwise. The error type is the union of the
+   * error types of every tried result.
+   *
+   * # Examples
+   *
+   * ```ts
+   * function parseInteger(n: string): Result<number, string> {
+   *    const parsed = parseInt(n);
+   *    if (Number.isNaN(parsed)) return Err(`${n} is not a Number!`);
+   *    return Ok(parsed);
+   * }
+   * function divide(n: number, d: number): Result<number, RangeError> {
+   *    if (d == 0) return Err(new RangeError("division by zero"));
+   *    return Ok(n / d);
+   * }
+   *
+   * // Result<number, string | RangeError>
+   * let x = Result.gen(function* () {
+   *    const n = yield* parseInteger("42").try();
+   *    const d = yield* parseInteger("2").try();
+   *    return yield* divide(n, d).try();
+   * });
+   * console.log(x.unwrap()); // 21
+   *
+   * let y = Result.gen(function* () {
+   *    const n = yield* parseInteger("foo").try();
+   *    console.log("never reached");
+   *    return n;
+   * });
+   * console.log(y.unwrapErr()); // foo is not a Number!
+   * ```
+   */
+  static gen<Y extends Result<never, unknown>, T>(
+    body: () => Generator<Y, T, unknown>,
+  ): Result<T, ErrType<Y>> {
+    const generator = body();
+    const next = generator.next();
+    if (next.done) return Ok(next.value);
+    generator.return(undefined as unknown as T);
+    return Err(next.value.unwrapErr() as ErrType<Y>);
+  }
+
+  /** Collects an iterable of results into a result of an array, `Ok` of all
+   * the values if every result is `Ok`, the first `Err` otherwise.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let x = Result.collect(["1", "2", "3"].map(parseInteger));
+   * console.log(x.unwrap()); // [ 1, 2, 3 ]
+   *
+   * let y = Result.collect(["1", "foo", "bar"].map(parseInteger));
+   * console.log(y.unwrapErr()); // foo is not a Number!
+   * ```
+   */
+  static collect<T, E>(results: Iterable<Result<T, E>>): Result<T[], E> {
+    const values: T[] = [];
+    for (const result of results) {
+      if (result.tag == ResultTag.Err) return Err(result.errValue);
+      values.push(result.okValue);
+    }
+    return Ok(values);
+  }
 
-  /** Contains the success value */
-  static Ok<T, E>(value: T): Result<T, E> {
-    return new Result({ tag: ResultTag.Ok, value });
+  /** Combines a tuple, array or object of results into a result of the same
+   * shape, `Ok` if every result is `Ok`, the first `Err` otherwise.
+   *
+   * The type of each element or field is kept, the error type is the union
+   * of the error types.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let x = Result.all([Ok(1), Ok("hi")]); // Result<[number, string], never>
+   * console.log(x.unwrap()); // [ 1, "hi" ]
+   *
+   * let config = Result.all({
+   *    port: parseInteger(Deno.env.get("PORT") ?? "8080"),
+   *    host: Ok<string, string>("localhost"),
+   * }); // Result<{ port: number; host: string }, string>
+   * console.log(config.unwrap()); // { port: 8080, host: "localhost" }
+   * ```
+   */
+  static all<R extends readonly AnyResult[] | []>(
+    results: R,
+  ): Result<{ -readonly [K in keyof R]: OkType<R[K]> }, ErrType<R[number]>>;
+  static all<R extends Record<string, AnyResult>>(
+    results: R,
+  ): Result<{ [K in keyof R]: OkType<R[K]> }, ErrType<R[keyof R]>>;
+  static all(
+    results:
+      | readonly Result<unknown, unknown>[]
+      | Record<string, Result<unknown, unknown>>,
+  ): Result<unknown, unknown> {
+    if (Array.isArray(results)) return Result.collect(results);
+    const entries = Object.entries(results).map(([key, result]) =>
+      result.map((value) => [key, value] as const)
+    );
+    return Result.collect(entries).map(Object.fromEntries);
   }
 
-  /** Contains the error value */
-  static Err<T, E>(err: E): Result<T, E> {
-    return new Result({ tag: ResultTag.Err, err });
+  /** Splits an iterable of results into the array of the `Ok` values and the
+   * array of the `Err` values, in order.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let [numbers, errors] = Result.partition(["1", "foo", "3"].map(parseInteger));
+   * console.log(numbers); // [ 1, 3 ]
+   * console.log(errors); // [ "foo is not a Number!" ]
+   * ```
+   */
+  static partition<T, E>(results: Iterable<Result<T, E>>): [T[], E[]] {
+    const values: T[] = [];
+    const errors: E[] = [];
+    for (const result of results) {
+      values.push(...result);
+      errors.push(...result.err());
+    }
+    return [values, errors];
+  }
+
+  /** Combines a tuple, array or object of independent results into a result
+   * of the same shape, `Ok` if every result is `Ok`, `Err` of the errors of
+   * every `Err` result otherwise.
+   *
+   * Unlike `Result.all`, it does not stop at the first `Err`, see
+   * `Validation` for the full error accumulating API.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let x = Result.combineWithAllErrors([parseInteger("1"), parseInteger("2")]);
+   * console.log(x.unwrap()); // [ 1, 2 ]
+   *
+   * let y = Result.combineWithAllErrors({
+   *    width: parseInteger("foo"),
+   *    height: parseInteger("bar"),
+   * }); // Result<{ width: number; height: number }, string[]>
+   * console.log(y.unwrapErr()); // [ "foo is not a Number!", "bar is not a Number!" ]
+   * ```
+   */
+  static combineWithAllErrors<
+    R extends readonly AnyResult[] | [],
+  >(
+    results: R,
+  ): Result<{ -readonly [K in keyof R]: OkType<R[K]> }, ErrType<R[number]>[]>;
+  static combineWithAllErrors<
+    R extends Record<string, AnyResult>,
+  >(
+    results: R,
+  ): Result<{ [K in keyof R]: OkType<R[K]> }, ErrType<R[keyof R]>[]>;
+  static combineWithAllErrors(
+    results:
+      | readonly Result<unknown, unknown>[]
+      | Record<string, Result<unknown, unknown>>,
+  ): Result<unknown, unknown[]> {
+    if (Array.isArray(results)) {
+      return Validation.all(results.map(Validation.fromResult)).toResult();
+    }
+    const validations = Object.entries(results).map(([key, result]) =>
+      [key, Validation.fromResult(result)] as const
+    );
+    return Validation.all(Object.fromEntries(validations)).toResult();
   }
 
   /** Returns `true` if the result is `Ok`.
@@ -73,9 +348,36 @@ export class Result<T, E> {
    * let y: Result<number, string> = Err("Some error message");
    * console.log(y.isOk()); // false
    * ```
+   *
+   * It narrows the result to `Ok`, giving access to its `value`:
+   *
+   * ```ts
+   * let x: Result<number, string> = Ok(-3);
+   * if (x.isOk()) console.log(x.value); // -3
+   * ```
    */
-  isOk(this: Result<T, E>): boolean {
-    return this.result.tag == ResultTag.Ok;
+  isOk(this: Result<T, E>): this is Ok<T, E> {
+    return this.tag == ResultTag.Ok;
+  }
+
+  /** Returns `true` if the result is `Ok` and the value inside of it
+   * matches a predicate.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let x: Result<number, string> = Ok(2);
+   * console.log(x.isOkAnd((x) => x > 1)); // true
+   *
+   * let x: Result<number, string> = Ok(0);
+   * console.log(x.isOkAnd((x) => x > 1)); // false
+   *
+   * let x: Result<number, string> = Err("hey");
+   * console.log(x.isOkAnd((x) => x > 1)); // false
+   * ```
+   */
+  isOkAnd(this: Result<T, E>, f: (arg: T) => boolean): boolean {
+    return this.tag == ResultTag.Ok && f(this.okValue);
   }
 
   /** Returns `true` if the result is `Err`.
@@ -91,13 +393,74 @@ export class Result<T, E> {
    * let y: Result<number, string> = Err("Some error message");
    * console.log(y.isErr()); // true
    * ```
+   *
+   * It narrows the result to `Err`, giving access to its `error`:
+   *
+   * ```ts
+   * let y: Result<number, string> = Err("Some error message");
+   * if (y.isErr()) console.log(y.error); // Some error message
+   * ```
    */
-  isErr(this: Result<T, E>): boolean {
+  isErr(this: Result<T, E>): this is Err<T, E> {
     return !this.isOk();
   }
 
+  /** Returns `true` if the result is `Err` and the value inside of it
+   * matches a predicate.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let x: Result<number, Error> = Err(new RangeError("out of bounds"));
+   * console.log(x.isErrAnd((e) => e instanceof RangeError)); // true
+   *
+   * let x: Result<number, Error> = Err(new TypeError("not a number"));
+   * console.log(x.isErrAnd((e) => e instanceof RangeError)); // false
+   *
+   * let x: Result<number, Error> = Ok(123);
+   * console.log(x.isErrAnd((e) => e instanceof RangeError)); // false
+   * ```
+   */
+  isErrAnd(this: Result<T, E>, f: (arg: E) => boolean): boolean {
+    return this.tag == ResultTag.Err && f(this.errValue);
+  }
+
+  /** The contained success value if the result is `Ok`, `undefined`
+   * otherwise.
+   *
+   * Narrow the result with `isOk` to get it as a `T`, without panicking.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let x: Result<number, string> = Ok(2);
+   * if (x.isOk()) console.log(x.value + 1); // 3
+   * console.log(Err("error").value); // undefined
+   * ```
+   */
+  get value(): T | undefined {
+    return this.tag == ResultTag.Ok ? this.okValue : undefined;
+  }
+
+  /** The contained error value if the result is `Err`, `undefined`
+   * otherwise.
+   *
+   * Narrow the result with `isErr` to get it as an `E`, without panicking.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let x: Result<number, string> = Err("error");
+   * if (x.isErr()) console.log(x.error.toUpperCase()); // ERROR
+   * console.log(Ok(2).error); // undefined
+   * ```
+   */
+  get error(): E | undefined {
+    return this.tag == ResultTag.Err ? this.errValue : undefined;
+  }
+
   /** Returns `true` if the result is an `Ok` value containing the given value.
-   * (loose equality `==`);
+   * (structural equality, see `equals`);
    *
    * # Examples
    *
@@ -113,11 +476,11 @@ export class Result<T, E> {
    * ```
    */
   contains<U>(this: Result<T, E>, x: T | U): boolean {
-    return this.result.tag == ResultTag.Ok && this.result.value == x;
+    return this.tag == ResultTag.Ok && equals(this.okValue, x);
   }
 
   /** Returns `true` if the result is an `Err` value containing the given value.
-   * (loose equality `==`);
+   * (structural equality, see `equals`);
    *
    * # Examples
    *
@@ -133,7 +496,121 @@ export class Result<T, E> {
    * ```
    */
   containsErr<F>(this: Result<T, E>, x: E | F): boolean {
-    return this.result.tag == ResultTag.Err && this.result.err == x;
+    return this.tag == ResultTag.Err && equals(this.errValue, x);
+  }
+
+  /** Returns `true` if both results are `Ok` with structurally equal values,
+   * or both are `Err` with structurally equal errors, see `equals`.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let x: Result<number[], string> = Ok([1, 2]);
+   * console.log(x.eq(Ok([1, 2]))); // true
+   * console.log(x.eq(Err("[1, 2]"))); // false
+   *
+   * let y: Result<number, { code: number }> = Err({ code: 404 });
+   * console.log(y.eq(Err({ code: 404 }))); // true
+   * ```
+   */
+  eq(this: Result<T, E>, other: Result<T, E>): boolean {
+    if (this.tag == ResultTag.Ok) {
+      return other.tag == ResultTag.Ok &&
+        equals(this.okValue, other.okValue);
+    }
+    return other.tag == ResultTag.Err &&
+      equals(this.errValue, other.errValue);
+  }
+
+  [Eq](this: Result<T, E>, other: unknown): boolean {
+    return other instanceof ResultBase && this.eq(other as Result<T, E>);
+  }
+
+  /** Compares `self` and `other`, any `Ok` being less than any `Err`, two
+   * `Ok`s being ordered by their values and two `Err`s by their errors, see
+   * `compare`.
+   *
+   * # Panics (throws)
+   *
+   * Panics if the contained values cannot be compared, use `partialCmp` to
+   * handle this case.
+   *
+   * # Examples
+   *
+   * ```ts
+   * console.log(Ok(5).cmp(Err(1))); // Ordering.Less
+   * console.log(Err(2).cmp(Err(1))); // Ordering.Greater
+   *
+   * let x: Result<number, string>[] = [Err("b"), Ok(2), Err("a"), Ok(1)];
+   * x.sort((a, b) => a.cmp(b)); // [ Ok(1), Ok(2), Err("a"), Err("b") ]
+   * ```
+   */
+  cmp(this: Result<T, E>, other: Result<T, E>): Ordering {
+    const ordering = this[Ord](other);
+    if (ordering == undefined) {
+      panic(`cannot compare \`${this}\` with \`${other}\``);
+    }
+    return ordering;
+  }
+
+  /** Compares `self` and `other` like `cmp`, returning `None` if the
+   * contained values cannot be compared.
+   *
+   * # Examples
+   *
+   * ```ts
+   * console.log(Ok(1).partialCmp(Err(0)).contains(Ordering.Less)); // true
+   * console.log(Ok(NaN).partialCmp(Ok(1)).isNone()); // true
+   * ```
+   */
+  partialCmp(this: Result<T, E>, other: Result<T, E>): Option<Ordering> {
+    return Option.fromNullable(this[Ord](other));
+  }
+
+  [Ord](this: Result<T, E>, other: unknown): Ordering | undefined {
+    if (!(other instanceof ResultBase)) return undefined;
+    if (this.tag == ResultTag.Ok) {
+      if (other.tag == ResultTag.Err) return Ordering.Less;
+      return partialCompare(this.okValue, other.okValue);
+    }
+    if (other.tag == ResultTag.Ok) return Ordering.Greater;
+    return partialCompare(this.errValue, other.errValue);
+  }
+
+  /** Wraps the error of an `Err` in a `ContextError` with the message
+   * `context` and the error as its `cause`, leaving an `Ok` value untouched.
+   *
+   * Arguments passed to `context` are eagerly evaluated; if you are passing
+   * the result of a function call, it is recommended to use `withContext`,
+   * which is lazily evaluated.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let x: Result<number, string> = Err("not found");
+   * let error = x.context("reading config").unwrapErr();
+   * console.log(error.message); // reading config
+   * console.log(error.cause); // not found
+   * ```
+   */
+  context(this: Result<T, E>, context: string): Result<T, ContextError> {
+    return this.mapErr((err) => new ContextError(context, { cause: err }));
+  }
+
+  /** Wraps the error of an `Err` in a `ContextError` with the message
+   * returned by `f` and the error as its `cause`, leaving an `Ok` value
+   * untouched.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let path = "config.toml";
+   * let x: Result<number, string> = Err("not found");
+   * console.log(x.withContext(() => `reading ${path}`).unwrapErr().message); // reading config.toml
+   * ```
+   */
+  withContext(this: Result<T, E>, f: () => string): Result<T, ContextError> {
+    return this.mapErr((err) => new ContextError(f(), { cause: err }));
   }
 
   /** Converts from `Result<T, E>` to `Option<T>`.
@@ -153,10 +630,16 @@ export class Result<T, E> {
    * let y: Result<number, string> = Err("Nothing here");
    * console.log(y.ok().isNone()); // true
    * ```
+   *
+   * It is the inverse of `Option.okOr`, an `Ok` giving a `Some` and an `Err`
+   * a `None`.
    */
+  ok(this: Ok<T, E>): Some<T>;
+  ok(this: Err<T, E>): None<T>;
+  ok(this: Result<T, E>): Option<T>;
   ok(this: Result<T, E>): Option<T> {
-    if (this.result.tag == ResultTag.Err) return None();
-    return Some(this.result.value);
+    if (this.tag == ResultTag.Err) return None();
+    return Some(this.okValue);
   }
 
   /** Converts from `Result<T, E>` to `Option<E>`.
@@ -176,10 +659,15 @@ export class Result<T, E> {
    * let yErr: Option<string> = y.err();
    * console.log(yErr.isSome() && yErr.contains("Nothing here")); // true
    * ```
+   *
+   * An `Ok` gives a `None` and an `Err` a `Some`.
    */
+  err(this: Ok<T, E>): None<E>;
+  err(this: Err<T, E>): Some<E>;
+  err(this: Result<T, E>): Option<E>;
   err(this: Result<T, E>): Option<E> {
-    if (this.result.tag == ResultTag.Ok) return None();
-    return Some(this.result.err);
+    if (this.tag == ResultTag.Ok) return None();
+    return Some(this.errValue);
   }
 
   /** Maps a `Result<T, E>` to `Result<U, E>` by applying a function to a
@@ -208,8 +696,8 @@ export class Result<T, E> {
    * ```
    */
   map<U>(this: Result<T, E>, op: (arg: T) => U): Result<U, E> {
-    if (this.result.tag == ResultTag.Err) return Err(this.result.err);
-    return Ok(op(this.result.value));
+    if (this.tag == ResultTag.Err) return this.withOkType();
+    return Ok(op(this.okValue));
   }
 
   /** Returns the provided default (if `Err`), or
@@ -230,17 +718,20 @@ export class Result<T, E> {
    * ```
    */
   mapOr<U>(this: Result<T, E>, defaultValue: U, f: (arg: T) => U): U {
-    if (this.result.tag == ResultTag.Err) return defaultValue;
-    return f(this.result.value);
+    if (this.tag == ResultTag.Err) return defaultValue;
+    return f(this.okValue);
   }
 
-  /** Maps a `Result<T, E>` to `U` by applying a fallback function to a
-   * contained `Err` value, or a default function to a
-   * contained `Ok` value.
+  /** Maps a `Result<T, E>` to `U` by applying the fallback function
+   * `defaultValue` to a contained `Err` value, or `f` to a contained `Ok`
+   * value.
    *
    * This function can be used to unpack a successful result
    * while handling an error.
    *
+   * The fallback comes first, like in Rust's `map_or_else` and `mapOr`, and
+   * unlike in `match` where the `Ok` arm does.
+   *
    *
    * # Examples
    *
@@ -261,8 +752,100 @@ export class Result<T, E> {
     defaultValue: (arg: E) => U,
     f: (arg: T) => U,
   ): U {
-    if (this.result.tag == ResultTag.Err) return defaultValue(this.result.err);
-    return f(this.result.value);
+    if (this.tag == ResultTag.Err) return defaultValue(this.errValue);
+    return f(this.okValue);
+  }
+
+  /** Calls the arm matching the variant of the result, `Ok` with the
+   * contained value or `Err` with the contained error, and returns its
+   * result.
+   *
+   * Both arms are required, so the match is exhaustive.
+   *
+   * # Examples
+   *
+   * Basic usage:
+   *
+   * ```ts
+   * let x: Result<number, string> = Ok(3);
+   * console.log(x.match({ Ok: (v) => v * 2, Err: (e) => e.length })); // 6
+   *
+   * let y: Result<number, string> = Err("bar");
+   * console.log(y.match({ Ok: (v) => v * 2, Err: (e) => e.length })); // 3
+   * ```
+   */
+  match<R>(
+    this: Result<T, E>,
+    arms: { Ok: (value: T) => R; Err: (err: E) => R },
+  ): R {
+    if (this.tag == ResultTag.Err) return arms.Err(this.errValue);
+    return arms.Ok(this.okValue);
+  }
+
+  /** Returns the contained `Ok` value or handles the error of an `Err`
+   * with the handler of its variant, for errors defined with `defineErrors`.
+   *
+   * A handler is required for every variant, so the match is exhaustive.
+   * Handlers are called with the arguments the error was built with.
+   *
+   * # Examples
+   *
+   * ```ts
+   * const HttpError = defineErrors({
+   *    NotFound: (path: string) => `${path} not found`,
+   *    Unavailable: (retryAfter: number) => `retry after ${retryAfter}s`,
+   * });
+   *
+   * let x: Result<string, ErrorUnion<typeof HttpError>> = Err(HttpError.Unavailable(30));
+   * let body = x.matchErr({
+   *    NotFound: (path) => `nothing at ${path}`,
+   *    Unavailable: (retryAfter) => `come back in ${retryAfter}s`,
+   * });
+   * console.log(body); // come back in 30s
+   * ```
+   */
+  matchErr<U>(this: Result<T, E>, handlers: ErrHandlers<E, U>): T | U {
+    if (this.tag == ResultTag.Ok) return this.okValue;
+    const { kind, args } = this.errValue as EnumError;
+    const handler = (handlers as Record<string, (...args: unknown[]) => U>)[
+      kind
+    ];
+    return handler(...args);
+  }
+
+  /** Tries each arm in order and returns the result of the first one whose
+   * pattern matches, see `Pattern` for guards and nested patterns.
+   *
+   * # Panics
+   *
+   * Panics if no arm matches, end the arms with `Pattern.any()` to avoid it.
+   *
+   * # Examples
+   *
+   * Basic usage:
+   *
+   * ```ts
+   * function describe(x: Result<Option<number>, string>): string {
+   *    return x.matchWhen(
+   *       Pattern.Ok(Pattern.Some(Pattern.when((v: number) => v > 3)))
+   *          .arm((v) => `big ${v}`),
+   *       Pattern.Ok(Pattern.Some<number>()).arm((v) => `small ${v}`),
+   *       Pattern.Ok(Pattern.None()).arm(() => "nothing"),
+   *       Pattern.Err<string>().arm((e) => `failed: ${e}`),
+   *    );
+   * }
+   *
+   * console.log(describe(Ok(Some(5)))); // big 5
+   * console.log(describe(Ok(None()))); // nothing
+   * console.log(describe(Err("boom"))); // failed: boom
+   * ```
+   */
+  matchWhen<R>(this: Result<T, E>, ...arms: MatchArm<Result<T, E>, R>[]): R {
+    for (const arm of arms) {
+      const matched = arm(this);
+      if (matched.isSome()) return matched.unwrap();
+    }
+    return panic(`no match arm matched \`${this}\``);
   }
 
   /** Maps a `Result<T, E>` to `Result<T, F>` by applying a function to a
@@ -289,11 +872,44 @@ export class Result<T, E> {
    * ```
    */
   mapErr<F>(this: Result<T, E>, f: (arg: E) => F): Result<T, F> {
-    if (this.result.tag == ResultTag.Ok) return Ok(this.result.value);
-    return Err(f(this.result.err));
+    if (this.tag == ResultTag.Ok) return this.withErrType();
+    return Err(f(this.errValue));
+  }
+
+  /** Calls `f` with the contained value if `Ok`, then returns the result.
+   *
+   * # Examples
+   *
+   * ```ts
+   * // prints "original: 4"
+   * let x = Ok<number, string>(4)
+   *    .inspect((x) => console.log(`original: ${x}`))
+   *    .map((x) => x ** 3)
+   *    .expect("failed to compute");
+   * ```
+   */
+  inspect(this: Result<T, E>, f: (arg: T) => void): Result<T, E> {
+    if (this.tag == ResultTag.Ok) f(this.okValue);
+    return this;
+  }
+
+  /** Calls `f` with the contained error if `Err`, then returns the result.
+   *
+   * # Examples
+   *
+   * ```ts
+   * function readConfig(path: string): Result<string, Error> {
+   *    return resultify(Deno.readTextFileSync)(path)
+   *       .inspectErr((e) => console.error(`failed to read ${path}: ${e}`));
+   * }
+   * ```
+   */
+  inspectErr(this: Result<T, E>, f: (arg: E) => void): Result<T, E> {
+    if (this.tag == ResultTag.Err) f(this.errValue);
+    return this;
   }
 
-  /** Returns an iterator over the possibly contained value.
+  /** Returns an `Iter` over the possibly contained value.
    *
    * The iterator yields one value if the result is `Result::Ok`, otherwise none.
    *
@@ -303,18 +919,36 @@ export class Result<T, E> {
    *
    * ```ts
    * let x: Result<number, string> = Ok(7);
-   * console.log(x.iter().next().value); // 7
+   * console.log(x.iter().next().unwrap()); // 7
    *
    * let y: Result<number, string> = Err("nothing!");
-   * console.log(y.iter().next().value); // undefined (empty iterator, done is set to true)
+   * console.log(y.iter().next().isNone()); // true
    * ```
    */
-  iter(this: Result<T, E>): Iterable<T> {
-    return this[Symbol.iterator]();
+  iter(this: Result<T, E>): Iter<T> {
+    return Iter.from(this);
   }
 
-  *[Symbol.iterator](this: Result<T, E>): Iterable<T> {
-    if (this.result.tag == ResultTag.Ok) yield this.result.value;
+  *[Symbol.iterator](this: Result<T, E>): IterableIterator<T> {
+    if (this.tag == ResultTag.Ok) yield this.okValue;
+  }
+
+  /** Returns an `Iter` over the possibly contained error.
+   *
+   * The iterator yields one value if the result is `Err`, otherwise none.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let x: Result<number, string> = Err("nothing!");
+   * console.log(x.iterErr().next().unwrap()); // nothing!
+   *
+   * let y: Result<number, string> = Ok(7);
+   * console.log(y.iterErr().next().isNone()); // true
+   * ```
+   */
+  iterErr(this: Result<T, E>): Iter<E> {
+    return this.err().iter();
   }
 
   /** Returns `res` if the result is `Ok`, otherwise returns the `Err` value of `self`.
@@ -343,14 +977,15 @@ export class Result<T, E> {
    * ```
    */
   and<U>(this: Result<T, E>, res: Result<U, E>): Result<U, E> {
-    if (this.result.tag == ResultTag.Ok) return res;
-    return Err(this.result.err);
+    if (this.tag == ResultTag.Ok) return res;
+    return this.withOkType();
   }
 
   /** Calls `op` if the result is `Ok`, otherwise returns the `Err` value of `self`.
    *
    *
    * This function can be used for control flow based on `Result` values.
+   * The error type widens to the union of both error types.
    *
    * # Examples
    *
@@ -370,9 +1005,37 @@ export class Result<T, E> {
    * console.log(Err(3).andThen(sq).andThen(sq).unwrapErr()); // 3
    * ```
    */
-  andThen<U>(this: Result<T, E>, op: (arg: T) => Result<U, E>): Result<U, E> {
-    if (this.result.tag == ResultTag.Ok) return op(this.result.value);
-    return Err(this.result.err);
+  andThen<U, F = E>(
+    this: Result<T, E>,
+    op: (arg: T) => Result<U, F>,
+  ): Result<U, E | F> {
+    if (this.tag == ResultTag.Ok) return op(this.okValue);
+    return this.withOkType();
+  }
+
+  /** Calls the asynchronous `op` if the result is `Ok`, otherwise returns
+   * the `Err` value of `self`, as an `AsyncResult`.
+   *
+   * `op` can return a `Result`, a Promise of a `Result` or an `AsyncResult`,
+   * see `AsyncResult.andThen`.
+   *
+   * # Examples
+   *
+   * ```ts
+   * async function fetchName(id: number): Promise<Result<string, string>> {
+   *    return id == 1 ? Ok("Ferris") : Err(`no user ${id}`);
+   * }
+   *
+   * console.log(await Ok(1).andThenAsync(fetchName).unwrap()); // Ferris
+   * console.log(await Ok(2).andThenAsync(fetchName).unwrapErr()); // no user 2
+   * console.log(await Err("offline").andThenAsync(fetchName).unwrapErr()); // offline
+   * ```
+   */
+  andThenAsync<U, F = E>(
+    this: Result<T, E>,
+    op: (arg: T) => Result<U, F> | PromiseLike<Result<U, F>>,
+  ): AsyncResult<U, E | F> {
+    return this.toAsync().andThen(op);
   }
 
   /** Returns `res` if the result is `Err`, otherwise returns the `Ok` value of `self`.
@@ -404,13 +1067,14 @@ export class Result<T, E> {
    * ```
    */
   or<F>(this: Result<T, E>, res: Result<T, F>): Result<T, F> {
-    if (this.result.tag == ResultTag.Err) return res;
-    return Ok(this.result.value);
+    if (this.tag == ResultTag.Err) return res;
+    return this.withErrType();
   }
 
   /** Calls `op` if the result is `Err`, otherwise returns the `Ok` value of `self`.
    *
    * This function can be used for control flow based on result values.
+   * The success type widens to the union of both success types.
    *
    *
    * # Examples
@@ -427,9 +1091,36 @@ export class Result<T, E> {
    * console.log(Err(3).orElse(err).orElse(err).unwrapErr()); // 3
    * ```
    */
-  orElse<F>(this: Result<T, E>, op: (arg: E) => Result<T, F>): Result<T, F> {
-    if (this.result.tag == ResultTag.Err) return op(this.result.err);
-    return Ok(this.result.value);
+  orElse<F, U = T>(
+    this: Result<T, E>,
+    op: (arg: E) => Result<U, F>,
+  ): Result<T | U, F> {
+    if (this.tag == ResultTag.Err) return op(this.errValue);
+    return this.withErrType();
+  }
+
+  /** Calls the asynchronous `op` if the result is `Err`, otherwise returns
+   * the `Ok` value of `self`, as an `AsyncResult`.
+   *
+   * `op` can return a `Result`, a Promise of a `Result` or an `AsyncResult`,
+   * see `AsyncResult.orElse`.
+   *
+   * # Examples
+   *
+   * ```ts
+   * async function fromCache(key: string): Promise<Result<string, string>> {
+   *    return key == "home" ? Ok("cached") : Err(`${key} not cached`);
+   * }
+   *
+   * console.log(await Err("home").orElseAsync(fromCache).unwrap()); // cached
+   * console.log(await Ok("fresh").orElseAsync(fromCache).unwrap()); // fresh
+   * ```
+   */
+  orElseAsync<F, U = T>(
+    this: Result<T, E>,
+    op: (arg: E) => Result<U, F> | PromiseLike<Result<U, F>>,
+  ): AsyncResult<T | U, F> {
+    return this.toAsync().orElse(op);
   }
 
   /** Returns the contained `Ok` value or a provided default.
@@ -452,8 +1143,8 @@ export class Result<T, E> {
    * ```
    */
   unwrapOr(this: Result<T, E>, defaultValue: T): T {
-    if (this.result.tag == ResultTag.Err) return defaultValue;
-    return this.result.value;
+    if (this.tag == ResultTag.Err) return defaultValue;
+    return this.okValue;
   }
 
   /** Returns the contained `Ok` value or computes it from a closure.
@@ -471,8 +1162,34 @@ export class Result<T, E> {
    * ```
    */
   unwrapOrElse(this: Result<T, E>, op: (arg: E) => T): T {
-    if (this.result.tag == ResultTag.Err) return op(this.result.err);
-    return this.result.value;
+    if (this.tag == ResultTag.Err) return op(this.errValue);
+    return this.okValue;
+  }
+
+  /** Returns the contained `Ok` value or the default value given by
+   * `provider`, see `defaultOf`.
+   *
+   * # Examples
+   *
+   * Converts a string to an integer, turning poorly-formed strings into 0
+   * (the default value for numbers).
+   *
+   * ```ts
+   * let goodYearFromInput = "1909";
+   * let badYearFromInput = "190blarg";
+   * let goodYear = parseYear(goodYearFromInput).unwrapOrDefault(Number);
+   * let badYear = parseYear(badYearFromInput).unwrapOrDefault(Number);
+   *
+   * console.log(goodYear); // 1909
+   * console.log(badYear); // 0
+   * ```
+   */
+  unwrapOrDefault<U extends T>(
+    this: Result<U, E>,
+    provider: DefaultProvider<U>,
+  ): U {
+    if (this.tag == ResultTag.Err) return defaultOf(provider);
+    return this.okValue;
   }
 
   /** Returns the contained `Ok` value, consuming the `self` value.
@@ -493,8 +1210,10 @@ export class Result<T, E> {
    * ```
    */
   expect(this: Result<T, E>, msg: string): T {
-    if (this.result.tag == ResultTag.Err) panic(`${msg}: ${this.result.err}`);
-    return this.result.value;
+    if (this.tag == ResultTag.Err) {
+      panic(`${msg}: ${debug(this.errValue)}`, this.errValue);
+    }
+    return this.okValue;
   }
 
   /** Returns the contained `Ok` value, consuming the `self` value.
@@ -525,12 +1244,15 @@ export class Result<T, E> {
    * ```
    */
   unwrap(this: Result<T, E>): T {
-    if (this.result.tag == ResultTag.Err) {
+    if (this.tag == ResultTag.Err) {
       panic(
-        `called \`Result.unwrap()\` on an \`Err\` value: ${this.result.err}`,
+        `called \`Result.unwrap()\` on an \`Err\` value: ${
+          debug(this.errValue)
+        }`,
+        this.errValue,
       );
     }
-    return this.result.value;
+    return this.okValue;
   }
 
   /** Returns the contained `Err` value.
@@ -551,8 +1273,10 @@ export class Result<T, E> {
    * ```
    */
   expectErr(this: Result<T, E>, msg: string): E {
-    if (this.result.tag == ResultTag.Ok) panic(`${msg}: ${this.result.value}`);
-    return this.result.err;
+    if (this.tag == ResultTag.Ok) {
+      panic(`${msg}: ${debug(this.okValue)}`, this.okValue);
+    }
+    return this.errValue;
   }
 
   /** Returns the contained `Err` value, consuming the `self` value.
@@ -575,12 +1299,116 @@ export class Result<T, E> {
    * ```
    */
   unwrapErr(this: Result<T, E>): E {
-    if (this.result.tag == ResultTag.Ok) {
+    if (this.tag == ResultTag.Ok) {
       panic(
-        `called \`Result::unwrap_err()\` on an \`Ok\` value: ${this.result.value}`,
+        `called \`Result::unwrap_err()\` on an \`Ok\` value: ${
+          debug(this.okValue)
+        }`,
+        this.okValue,
       );
     }
-    return this.result.err;
+    return this.errValue;
+  }
+
+  /** Returns the contained `Ok` value of a result that can't fail, its error
+   * type being `never`.
+   *
+   * Unlike `unwrap`, it doesn't type-check on results that can fail, so
+   * changing the error type of a function to something else than `never`
+   * breaks the callers relying on it.
+   *
+   * # Panics (throws)
+   *
+   * Panics if the value is an `Err` nonetheless, which only a cast can
+   * cause.
+   *
+   * # Examples
+   *
+   * ```ts
+   * function onlyGoodNews(): Result<string, never> {
+   *    return Ok("this is fine");
+   * }
+   *
+   * console.log(onlyGoodNews().intoOk()); // this is fine
+   * ```
+   */
+  intoOk(this: Result<T, never>): T {
+    return this.expect("called `Result.intoOk()` on an `Err` value");
+  }
+
+  /** Returns the contained `Err` value of a result that can't succeed, its
+   * success type being `never`.
+   *
+   * Unlike `unwrapErr`, it doesn't type-check on results that can succeed,
+   * so changing the success type of a function to something else than
+   * `never` breaks the callers relying on it.
+   *
+   * # Panics (throws)
+   *
+   * Panics if the value is an `Ok` nonetheless, which only a cast can cause.
+   *
+   * # Examples
+   *
+   * ```ts
+   * function onlyBadNews(): Result<never, string> {
+   *    return Err("Oops, it failed");
+   * }
+   *
+   * console.log(onlyBadNews().intoErr()); // Oops, it failed
+   * ```
+   */
+  intoErr(this: Result<never, E>): E {
+    return this.expectErr("called `Result.intoErr()` on an `Ok` value");
+  }
+
+  /** Maps a `Result<T, E>` to a `Result<T, E>` holding a shallow copy of
+   * the `Ok` value: a new array for arrays, a new `Map`, `Set`, `Date`,
+   * `RegExp`, `ArrayBuffer`, `DataView`, typed array or `Error` with the same
+   * contents for those, a new object with the same prototype and own
+   * properties for other objects, the value itself otherwise.
+   *
+   * # Panics
+   *
+   * Panics if the value is a `Promise`, `WeakMap`, `WeakSet` or `WeakRef`,
+   * whose contents can't be copied.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let point = { x: 1, y: 2 };
+   * let x = Ok(point).copied();
+   * x.unwrap().x = 3;
+   * console.log(point.x); // 1
+   *
+   * let map = new Map([[1, { id: 1 }]]);
+   * let y = Ok(map).copied();
+   * console.log(y.unwrap() == map); // false
+   * console.log(y.unwrap().get(1) == map.get(1)); // true
+   * ```
+   */
+  copied(this: Result<T, E>): Result<T, E> {
+    return this.map(copy);
+  }
+
+  /** Maps a `Result<T, E>` to a `Result<T, E>` holding a deep copy of the
+   * `Ok` value, made with `structuredClone`.
+   *
+   * # Panics (throws)
+   *
+   * Throws a `DOMException` if the value can't be cloned, like functions.
+   * Class instances are cloned into plain objects.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let config = { server: { port: 80 } };
+   * let x = Ok(config).cloned();
+   * x.unwrap().server.port = 8080;
+   * console.log(config.server.port); // 80
+   * ```
+   */
+  cloned(this: Result<T, E>): Result<T, E> {
+    return this.map((value) => structuredClone(value));
   }
 
   /** Transposes a `Result` of an `Option` into an `Option` of a `Result`.
@@ -591,25 +1419,24 @@ export class Result<T, E> {
    * # Examples
    *
    * ```ts
-   * #derive(Debug, Eq, PartialEq)
-   * struct SomeErr;
-   *
-   * let x: Result<Option<number>, SomeErr> = Ok(Some(5));
-   * let y: Option<Result<number, SomeErr>> = Some(Ok(5));
-   * // Both are equivalent now, though equality is hard to prove in JS.
+   * let x: Result<Option<number>, string> = Ok(Some(5));
+   * let y: Option<Result<number, string>> = Some(Ok(5));
+   * console.log(x.transpose().eq(y)); // true
    * ```
+   *
+   * It is the inverse of `Option.transpose`.
    */
-  transpose(this: Result<Option<T>, E>): Option<Result<T, E>> {
-    if (this.result.tag == ResultTag.Ok && this.result.value.isNone()) {
+  transpose<U>(this: Result<Option<U>, E>): Option<Result<U, E>> {
+    if (this.tag == ResultTag.Ok && this.okValue.isNone()) {
       return None();
     }
-    if (this.result.tag == ResultTag.Ok) {
-      return Some(Ok(this.result.value.unwrap()));
+    if (this.tag == ResultTag.Ok) {
+      return Some(Ok(this.okValue.unwrap()));
     }
-    return Some(Err(this.result.err));
+    return Some(Err(this.errValue));
   }
 
-  /** Converts from `Result<Result<T, E>, E>` to `Result<T, E>`
+  /** Converts from `Result<Result<T, F>, E>` to `Result<T, E | F>`
    *
    * # Examples
    *
@@ -635,25 +1462,166 @@ export class Result<T, E> {
    * console.log(`${x.flatten().flatten()}`); // Ok("hello")
    * ```
    */
-  flatten(this: Result<T, E>): Result<T, E> {
-    if (
-      this.result.tag == ResultTag.Ok && this.result.value instanceof Result
-    ) {
-      return this.result.value;
+  flatten<U, F>(this: Result<Result<U, F>, E>): Result<U, E | F> {
+    if (this.tag == ResultTag.Ok) return this.okValue;
+    return this.withOkType();
+  }
+
+  /** Converts from `Result<T, E>` to `AsyncResult<T, E>`, so it can be
+   * chained with asynchronous operations.
+   *
+   * # Examples
+   *
+   * ```ts
+   * async function double(x: number): Promise<number> {
+   *    return x * 2;
+   * }
+   *
+   * let x: Result<number, string> = Ok(2);
+   * console.log(await x.toAsync().map(double).unwrap()); // 4
+   * ```
+   */
+  toAsync(this: Result<T, E>): AsyncResult<T, E> {
+    return AsyncResult.from(this);
+  }
+
+  /** Converts from `Result<T, E>` to `Promise<T>`, resolving with the `Ok`
+   * value or rejecting with the `Err` value.
+   *
+   * This is the way back to Promise-based code that expects rejections.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let x: Result<number, string> = Ok(2);
+   * console.log(await x.toPromise()); // 2
+   *
+   * let y: Result<number, string> = Err("emergency failure");
+   * await y.toPromise(); // rejects with `emergency failure`
+   * ```
+   */
+  toPromise(this: Result<T, E>): Promise<T> {
+    if (this.tag == ResultTag.Err) {
+      return Promise.reject(this.errValue);
+    }
+    return Promise.resolve(this.okValue);
+  }
+
+  /** Unwraps an `Ok` or short-circuits the enclosing `Result.gen` on an
+   * `Err`, to be used with `yield*`, see `Result.gen`.
+   */
+  *try(this: Result<T, E>): Generator<Result<never, E>, T, unknown> {
+    if (this.tag == ResultTag.Err) {
+      yield Err(this.errValue);
+      return panic("`Result.gen` resumed after an `Err`");
+    }
+    return this.okValue;
+  }
+
+  // Results are immutable, so an `Err` can be reused as is as a result of
+  // any `Ok` type, and an `Ok` as a result of any `Err` type, instead of
+  // being copied.
+  private withOkType<U>(this: Result<T, E>): Result<U, E> {
+    return this as unknown as Result<U, E>;
+  }
+
+  private withErrType<F>(this: Result<T, E>): Result<T, F> {
+    return this as unknown as Result<T, F>;
+  }
+
+  /** Returns the JSON representation of the result, `{ "Ok": value }` or
+   * `{ "Err": error }`, which `JSON.stringify` uses.
+   *
+   * # Examples
+   *
+   * ```ts
+   * console.log(JSON.stringify(Ok(1))); // {"Ok":1}
+   * console.log(JSON.stringify(Err(Some("boom")))); // {"Err":{"Some":"boom"}}
+   * ```
+   */
+  toJSON(this: Result<T, E>): ResultJSON<T, E> {
+    if (this.tag == ResultTag.Ok) return { Ok: this.okValue };
+    return { Err: this.errValue };
+  }
+
+  [Debug](this: Result<T, E>, format: (value: unknown) => string): string {
+    if (this.tag == ResultTag.Ok) {
+      return `Ok(${format(this.okValue)})`;
     }
-    return new Result(this.result);
+    return `Err(${format(this.errValue)})`;
+  }
+
+  [denoCustomInspect](this: Result<T, E>): string {
+    return debug(this);
   }
 
+  [nodeCustomInspect](this: Result<T, E>): string {
+    return debug(this);
+  }
+
+  /** Returns the debug representation of the result, see `debug`.
+   *
+   * # Examples
+   *
+   * ```ts
+   * console.log(`${Ok([1, 2])}`); // Ok([ 1, 2 ])
+   * console.log(`${Err(new Error("boom"))}`); // Err(Error: boom)
+   * ```
+   */
   toString(this: Result<T, E>): string {
-    if (this.result.tag == ResultTag.Ok) return `Ok(${this.result.value})`;
-    return `Err(${this.result.err})`;
+    return debug(this);
   }
 }
 
+/** A successful `Result`, as narrowed by `Result.isOk`. */
+export interface Ok<T, E> extends ResultBase<T, E> {
+  readonly [variant]: ResultTag.Ok;
+  /** The contained success value. */
+  readonly value: T;
+  readonly error: undefined;
+}
+
+/** A failed `Result`, as narrowed by `Result.isErr`. */
+export interface Err<T, E> extends ResultBase<T, E> {
+  readonly [variant]: ResultTag.Err;
+  readonly value: undefined;
+  /** The contained error value. */
+  readonly error: E;
+}
+
+/** The result of an operation that can fail, either `Ok` or `Err`. */
+export type Result<T, E> = Ok<T, E> | Err<T, E>;
+export const Result = ResultBase;
+
 export const { Ok, Err } = Result;
+
+// deno-lint-ignore no-explicit-any
+type AnyFunction = (...args: any[]) => any;
+
+/** Function returned by `resultify(f)`, it takes the same parameters and
+ * `this` as `f` and returns a `Result` of its return type.
+ */
+export type Resultified<F extends AnyFunction, E> = (
+  this: ThisParameterType<F>,
+  ...args: Parameters<F>
+) => Result<ReturnType<F>, E>;
+
+/** Function returned by `resultifyAsync(f)`, it takes the same parameters
+ * and `this` as `f` and returns an `AsyncResult` of its awaited return type.
+ */
+export type AsyncResultified<F extends AnyFunction, E> = (
+  this: ThisParameterType<F>,
+  ...args: Parameters<F>
+) => AsyncResult<Awaited<ReturnType<F>>, E>;
+
 /** Converts a function that throws anything in a function that returns
- * `Ok(returnValue)` on success and `Err(Error)` on failure, Error
- * being the Error instance thrown by the function.
+ * `Ok(returnValue)` on success and `Err(error)` on failure, error
+ * being what was thrown by the function, passed through `mapError` if
+ * provided.
+ *
+ * Parameters, return type and `this` of `f` are preserved, so methods can be
+ * wrapped too. Without `mapError` the error type is `unknown`, as anything
+ * can be thrown.
  *
  * Basic usage:
  * ```ts
@@ -672,15 +1640,145 @@ export const { Ok, Err } = Result;
  * console.log(badResult.isErr()); // true
  * console.error(badResult.unwrapErr()); // "42 / 0 cannot be computed, denominator must be non-zero."
  * ```
+ *
+ * Mapping the error and wrapping a method:
+ * ```ts
+ * let safeParse = resultify(JSON.parse, (e) => (e as SyntaxError).message);
+ * let parsed: Result<any, string> = safeParse("{");
+ * console.log(parsed.isErr()); // true, holding the `SyntaxError` message
+ *
+ * class Counter {
+ *    count = 0;
+ *    increment(by: number): number {
+ *       if (by < 0) throw new RangeError("cannot decrement");
+ *       return this.count += by;
+ *    }
+ * }
+ *
+ * let counter = new Counter();
+ * let safeIncrement = resultify(counter.increment);
+ * console.log(safeIncrement.call(counter, 2).unwrap()); // 2
+ * ```
  */
-// deno-lint-ignore ban-types
-export function resultify(f: Function): Function {
-  // deno-lint-ignore no-explicit-any
-  return (...args: any) => {
+export function resultify<F extends AnyFunction>(
+  f: F,
+): Resultified<F, unknown>;
+export function resultify<F extends AnyFunction, E>(
+  f: F,
+  mapError: (error: unknown) => E,
+): Resultified<F, E>;
+export function resultify<F extends AnyFunction, E>(
+  f: F,
+  mapError?: (error: unknown) => E,
+): Resultified<F, E | unknown> {
+  return function (this: ThisParameterType<F>, ...args: Parameters<F>) {
     try {
-      return Ok(f(...args));
+      return Ok(f.apply(this, args));
     } catch (e) {
-      return Err(e);
+      return Err(mapError ? mapError(e) : e);
     }
   };
 }
+
+/** Async counterpart of `resultify`, converts a function that throws or
+ * returns a Promise that may reject in a function that returns an
+ * `AsyncResult`, resolving to `Ok(resolvedValue)` on success and
+ * `Err(reason)` on failure, reason being passed through `mapError` if
+ * provided.
+ *
+ * Both synchronous throws and rejections end up in the `Err` variant.
+ * Parameters, return type and `this` of `f` are preserved, like `resultify`.
+ *
+ * Basic usage:
+ * ```ts
+ * async function fetchText(url: string): Promise<string> {
+ *    const response = await fetch(url);
+ *    if (!response.ok) throw `${url} answered with ${response.status}`;
+ *    return response.text();
+ * }
+ *
+ * let safeFetchText = resultifyAsync(fetchText, (e) => String(e));
+ *
+ * let result = await safeFetchText("https://deno.land/404");
+ * console.log(result.isErr()); // true
+ * console.error(result.unwrapErr()); // "https://deno.land/404 answered with 404"
+ * ```
+ */
+export function resultifyAsync<F extends AnyFunction>(
+  f: F,
+): AsyncResultified<F, unknown>;
+export function resultifyAsync<F extends AnyFunction, E>(
+  f: F,
+  mapError: (reason: unknown) => E,
+): AsyncResultified<F, E>;
+export function resultifyAsync<F extends AnyFunction, E>(
+  f: F,
+  mapError?: (reason: unknown) => E,
+): AsyncResultified<F, E | unknown> {
+  return function (this: ThisParameterType<F>, ...args: Parameters<F>) {
+    const promise = new Promise<Awaited<ReturnType<F>>>((resolve) =>
+      resolve(f.apply(this, args))
+    );
+    if (mapError) return Result.fromPromise(promise, mapError);
+    return Result.fromPromise(promise);
+  };
+}
+
+/** Calls `f`, returning `Ok` of its return value, or `Err` of the
+ * `PanicError` if it panicked, like Rust's `std::panic::catch_unwind`.
+ *
+ * Only panics are caught, other exceptions are rethrown. The panic hook is
+ * still called before the panic is caught, see `setPanicHook`.
+ *
+ * # Examples
+ *
+ * ```ts
+ * let x = catchUnwind(() => Some(2).unwrap());
+ * console.log(x.unwrap()); // 2
+ *
+ * let y = catchUnwind(() => Err("emergency failure").unwrap());
+ * console.log(y.unwrapErr().payload); // emergency failure
+ * ```
+ */
+export function catchUnwind<T>(f: () => T): Result<T, PanicError> {
+  try {
+    return Ok(f());
+  } catch (e) {
+    if (e instanceof PanicError) return Err(e);
+    throw e;
+  }
+}
+
+// Built-ins keep their contents in internal slots, which `Object.assign`
+// doesn't copy, so they are copied by their constructors, the prototype and
+// own properties of the value being copied as for any object. Those whose
+// contents can't be read, like a `Promise`, can't be copied at all.
+export function copy<T>(value: T): T {
+  if (Array.isArray(value)) return [...value] as T;
+  if (typeof value != "object" || value === null) return value;
+  let copied: object = {};
+  if (value instanceof Map) copied = new Map(value);
+  else if (value instanceof Set) copied = new Set(value);
+  else if (value instanceof Date) copied = new Date(value);
+  else if (value instanceof RegExp) copied = new RegExp(value);
+  else if (value instanceof ArrayBuffer) copied = value.slice(0);
+  else if (value instanceof DataView) {
+    const { buffer, byteOffset, byteLength } = value;
+    copied = new DataView(buffer.slice(byteOffset, byteOffset + byteLength));
+  } else if (ArrayBuffer.isView(value)) {
+    copied = (value as unknown as Uint8Array).slice();
+  } else if (value instanceof Error) {
+    const options = "cause" in value ? { cause: value.cause } : {};
+    const error = new Error(value.message, options);
+    error.stack = value.stack;
+    if (Object.hasOwn(value, "name")) error.name = value.name;
+    copied = error;
+  } else if (
+    value instanceof Promise || value instanceof WeakMap ||
+    value instanceof WeakSet || value instanceof WeakRef
+  ) {
+    panic(`can't copy \`${value.constructor.name}\``);
+  }
+  Object.setPrototypeOf(copied, Object.getPrototypeOf(value));
+  return Object.assign(copied, value) as T;
+}
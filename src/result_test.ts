@@ -0,0 +1,478 @@
+import { deepStrictEqual, strictEqual, throws } from "node:assert/strict";
+import { assertType, IsExact } from "./_test_util.ts";
+import type { None, Some } from "./option.ts";
+import { AsyncResult } from "./asyncResult.ts";
+import { PanicError } from "./panic.ts";
+import {
+  Err,
+  Ok,
+  Result,
+  Resultified,
+  resultify,
+  resultifyAsync,
+} from "./result.ts";
+
+function parseInteger(n: string): Result<number, string> {
+  const parsed = parseInt(n);
+  if (Number.isNaN(parsed)) return Err(`${n} is not a Number!`);
+  return Ok(parsed);
+}
+
+function divide(n: number, d: number): Result<number, RangeError> {
+  if (d == 0) return Err(new RangeError("division by zero"));
+  return Ok(n / d);
+}
+
+Deno.test("Result.gen", async (t) => {
+  await t.step("returns Ok of the return value", () => {
+    const x = Result.gen(function* () {
+      const n = yield* parseInteger("42").try();
+      const d = yield* parseInteger("2").try();
+      return yield* divide(n, d).try();
+    });
+    assertType<IsExact<typeof x, Result<number, string | RangeError>>>(true);
+    strictEqual(x.unwrap(), 21);
+  });
+
+  await t.step("stops at the first Err", () => {
+    const reached: string[] = [];
+    const x = Result.gen(function* () {
+      const n = yield* parseInteger("42").try();
+      reached.push("n");
+      const d = yield* divide(n, 0).try();
+      reached.push("d");
+      return yield* parseInteger(`${d}`).try();
+    });
+    deepStrictEqual(reached, ["n"]);
+    deepStrictEqual(x.unwrapErr(), new RangeError("division by zero"));
+  });
+
+  await t.step("runs finally blocks on an Err", () => {
+    let cleanedUp = false;
+    const x = Result.gen(function* () {
+      try {
+        return yield* parseInteger("foo").try();
+      } finally {
+        cleanedUp = true;
+      }
+    });
+    strictEqual(cleanedUp, true);
+    strictEqual(x.unwrapErr(), "foo is not a Number!");
+  });
+
+  await t.step("infers never when nothing can fail", () => {
+    // deno-lint-ignore require-yield
+    const x = Result.gen(function* () {
+      return 1;
+    });
+    assertType<IsExact<typeof x, Result<number, never>>>(true);
+    strictEqual(x.unwrap(), 1);
+  });
+});
+
+Deno.test("Result.collect", () => {
+  deepStrictEqual(Result.collect(["1", "2"].map(parseInteger)).unwrap(), [
+    1,
+    2,
+  ]);
+  strictEqual(
+    Result.collect(["1", "foo", "bar"].map(parseInteger)).unwrapErr(),
+    "foo is not a Number!",
+  );
+  deepStrictEqual(Result.collect([]).unwrap(), []);
+});
+
+Deno.test("Result.all", async (t) => {
+  await t.step("keeps the type of each element", () => {
+    const x = Result.all([Ok(1), Ok("hi")]);
+    assertType<IsExact<typeof x, Result<[number, string], never>>>(true);
+    deepStrictEqual(x.unwrap(), [1, "hi"]);
+  });
+
+  await t.step("keeps the error types of mixed tuples", () => {
+    const x = Result.all([parseInteger("1"), Ok("hi")]);
+    assertType<IsExact<typeof x, Result<[number, string], string>>>(true);
+    deepStrictEqual(x.unwrap(), [1, "hi"]);
+
+    const y = Result.all([Err("x"), divide(1, 0), Ok(true)]);
+    assertType<
+      IsExact<typeof y, Result<[never, number, boolean], string | RangeError>>
+    >(true);
+    strictEqual(y.unwrapErr(), "x");
+  });
+
+  await t.step("combines objects", () => {
+    const x = Result.all({ port: parseInteger("8080"), host: Ok("localhost") });
+    assertType<
+      IsExact<typeof x, Result<{ port: number; host: string }, string>>
+    >(true);
+    deepStrictEqual(x.unwrap(), { port: 8080, host: "localhost" });
+    strictEqual(
+      Result.all({ port: parseInteger("foo"), host: Err(1) }).unwrapErr(),
+      "foo is not a Number!",
+    );
+  });
+});
+
+Deno.test("Result.partition", () => {
+  const [numbers, errors] = Result.partition(
+    ["1", "foo", "3"].map(parseInteger),
+  );
+  deepStrictEqual(numbers, [1, 3]);
+  deepStrictEqual(errors, ["foo is not a Number!"]);
+});
+
+Deno.test("Result.combineWithAllErrors", async (t) => {
+  await t.step("returns Ok of every value", () => {
+    const x = Result.combineWithAllErrors([parseInteger("1"), Ok(2)]);
+    assertType<IsExact<typeof x, Result<[number, number], string[]>>>(true);
+    deepStrictEqual(x.unwrap(), [1, 2]);
+  });
+
+  await t.step("returns Err of every error", () => {
+    const x = Result.combineWithAllErrors([Ok(1), Err("x"), divide(1, 0)]);
+    assertType<
+      IsExact<
+        typeof x,
+        Result<[number, never, number], (string | RangeError)[]>
+      >
+    >(true);
+    deepStrictEqual(x.unwrapErr(), ["x", new RangeError("division by zero")]);
+  });
+
+  await t.step("combines objects", () => {
+    const x = Result.combineWithAllErrors({
+      width: parseInteger("foo"),
+      height: parseInteger("bar"),
+      depth: Ok(1),
+    });
+    assertType<
+      IsExact<
+        typeof x,
+        Result<{ width: number; height: number; depth: number }, string[]>
+      >
+    >(true);
+    deepStrictEqual(x.unwrapErr(), [
+      "foo is not a Number!",
+      "bar is not a Number!",
+    ]);
+  });
+});
+
+Deno.test("copied", async (t) => {
+  await t.step("copies objects shallowly", () => {
+    class Point {
+      constructor(public x: number, public tags: string[]) {}
+    }
+    const point = new Point(1, ["a"]);
+    const copy = Ok(point).copied().unwrap();
+    copy.x = 3;
+    strictEqual(point.x, 1);
+    strictEqual(copy instanceof Point, true);
+    strictEqual(copy.tags, point.tags);
+
+    const array = [{ id: 1 }];
+    const copiedArray = Ok(array).copied().unwrap();
+    strictEqual(copiedArray == array, false);
+    strictEqual(copiedArray[0], array[0]);
+    strictEqual(Ok(1).copied().unwrap(), 1);
+    strictEqual(Err("x").copied().unwrapErr(), "x");
+  });
+
+  await t.step("copies built-ins by their contents", () => {
+    const value = { id: 1 };
+    const map = Ok(new Map([[1, value]])).copied().unwrap();
+    strictEqual(map.get(1), value);
+    const set = Ok(new Set([value])).copied().unwrap();
+    strictEqual(set.has(value), true);
+    strictEqual(Ok(new Date(0)).copied().unwrap().getTime(), 0);
+    strictEqual(Ok(/a/g).copied().unwrap().test("a"), true);
+    deepStrictEqual(
+      Ok(new Uint8Array([1, 2])).copied().unwrap(),
+      new Uint8Array([1, 2]),
+    );
+
+    const original = new Set([1]);
+    const copy = Ok(original).copied().unwrap();
+    copy.add(2);
+    strictEqual(original.size, 1);
+  });
+
+  await t.step("keeps the prototype of subclasses", () => {
+    class Registry extends Map<string, number> {
+      total(): number {
+        return [...this.values()].reduce((a, b) => a + b, 0);
+      }
+    }
+    const copy = Ok(new Registry([["a", 1], ["b", 2]])).copied().unwrap();
+    strictEqual(copy instanceof Registry, true);
+    strictEqual(copy.total(), 3);
+  });
+
+  await t.step("copies buffers by their contents", () => {
+    const buffer = new Uint8Array([1, 2, 3, 4]).buffer;
+    const copiedBuffer = Ok(buffer).copied().unwrap();
+    strictEqual(copiedBuffer == buffer, false);
+    deepStrictEqual(new Uint8Array(copiedBuffer), new Uint8Array([1, 2, 3, 4]));
+
+    const view = new DataView(buffer, 1, 2);
+    const copiedView = Ok(view).copied().unwrap();
+    strictEqual(copiedView.buffer == buffer, false);
+    strictEqual(copiedView.byteLength, 2);
+    strictEqual(copiedView.getUint8(0), 2);
+    copiedView.setUint8(0, 9);
+    strictEqual(view.getUint8(0), 2);
+  });
+
+  await t.step("rebuilds Errors", () => {
+    class NotFound extends Error {
+      override name = "NotFound";
+    }
+    const error = new NotFound("missing", { cause: 404 });
+    const copy = Ok(error).copied().unwrap();
+    strictEqual(copy == error, false);
+    strictEqual(copy instanceof NotFound, true);
+    strictEqual(copy.name, "NotFound");
+    strictEqual(copy.message, "missing");
+    strictEqual(copy.stack, error.stack);
+    strictEqual(copy.cause, 404);
+    strictEqual("cause" in Ok(new Error("x")).copied().unwrap(), false);
+  });
+
+  await t.step("panics on built-ins it can't copy", () => {
+    throws(() => Ok(Promise.resolve(1)).copied(), PanicError);
+    throws(() => Ok(new WeakMap()).copied(), /can't copy `WeakMap`/);
+  });
+});
+
+Deno.test("cloned", () => {
+  const config = { server: { port: 80 }, hosts: new Map([["a", { id: 1 }]]) };
+  const clone = Ok(config).cloned().unwrap();
+  clone.server.port = 8080;
+  clone.hosts.get("a")!.id = 2;
+  strictEqual(config.server.port, 80);
+  strictEqual(config.hosts.get("a")!.id, 1);
+  throws(() => Ok(() => {}).cloned(), DOMException);
+});
+
+Deno.test("isOkAnd and isErrAnd", () => {
+  strictEqual(Ok(2).isOkAnd((x) => x > 1), true);
+  strictEqual(Ok(0).isOkAnd((x) => x > 1), false);
+  strictEqual(Err<number, string>("x").isOkAnd(() => true), false);
+  strictEqual(Err("x").isErrAnd((e) => e == "x"), true);
+  strictEqual(Ok<number, string>(1).isErrAnd(() => true), false);
+});
+
+Deno.test("inspect and inspectErr", () => {
+  const seen: unknown[] = [];
+  const x = parseInteger("1");
+  strictEqual(
+    x.inspect((v) => seen.push(v)).inspectErr((e) => seen.push(e)),
+    x,
+  );
+  parseInteger("foo").inspect((v) => seen.push(v)).inspectErr((e) =>
+    seen.push(e)
+  );
+  deepStrictEqual(seen, [1, "foo is not a Number!"]);
+});
+
+Deno.test("iterErr", () => {
+  deepStrictEqual(Err("x").iterErr().collect(), ["x"]);
+  deepStrictEqual(Ok(1).iterErr().collect(), []);
+});
+
+Deno.test("intoOk and intoErr", () => {
+  strictEqual(Ok(1).intoOk(), 1);
+  strictEqual(Err("x").intoErr(), "x");
+});
+
+Deno.test("isOk and isErr narrow the result", () => {
+  const x = parseInteger("2");
+  if (x.isOk()) {
+    assertType<IsExact<typeof x, Ok<number, string>>>(true);
+    strictEqual(x.value, 2);
+    strictEqual(x.error, undefined);
+  }
+  const y = parseInteger("two");
+  if (y.isErr()) {
+    assertType<IsExact<typeof y, Err<number, string>>>(true);
+    strictEqual(y.error, "two is not a Number!");
+    strictEqual(y.value, undefined);
+  }
+  assertType<IsExact<typeof y.value, number | undefined>>(true);
+  assertType<IsExact<typeof y.error, string | undefined>>(true);
+
+  const ok = Ok(1);
+  const err = Err("x");
+  assertType<IsExact<typeof ok, Ok<number, never>>>(true);
+  assertType<IsExact<typeof err, Err<never, string>>>(true);
+});
+
+Deno.test("ok and err narrow Ok and Err", () => {
+  const some = Ok(1).ok();
+  const none = Err<number, string>("x").ok();
+  assertType<IsExact<typeof some, Some<number>>>(true);
+  assertType<IsExact<typeof none, None<number>>>(true);
+  strictEqual(some.value, 1);
+
+  const error = Err<number, string>("x").err();
+  assertType<IsExact<typeof error, Some<string>>>(true);
+  strictEqual(error.value, "x");
+  strictEqual(parseInteger("1").err().isNone(), true);
+});
+
+Deno.test("andThenAsync and orElseAsync", async () => {
+  const x = await parseInteger("2").andThenAsync(async (n) => {
+    await Promise.resolve();
+    return divide(1, n);
+  });
+  strictEqual(x.unwrap(), 0.5);
+
+  const y = await parseInteger("foo").orElseAsync((e) =>
+    Promise.resolve(Ok(e.length))
+  );
+  strictEqual(y.unwrap(), 20);
+});
+
+Deno.test("resultify", async (t) => {
+  function divideOrThrow(n: number, d: number): number {
+    if (d == 0) throw `${n} / ${d} cannot be computed`;
+    return n / d;
+  }
+
+  await t.step("returns Ok of the return value", () => {
+    const safeDivision = resultify(divideOrThrow);
+    assertType<
+      IsExact<
+        typeof safeDivision,
+        (this: unknown, n: number, d: number) => Result<number, unknown>
+      >
+    >(true);
+    deepStrictEqual(safeDivision(5, 2.5), Ok(2));
+  });
+
+  await t.step("returns Err of what was thrown", () => {
+    deepStrictEqual(
+      resultify(divideOrThrow)(42, 0),
+      Err("42 / 0 cannot be computed"),
+    );
+  });
+
+  await t.step("maps the error", () => {
+    const safeParse = resultify(
+      (text: string): unknown => JSON.parse(text),
+      (e) => (e as SyntaxError).name,
+    );
+    const x = safeParse("{");
+    assertType<IsExact<typeof x, Result<unknown, string>>>(true);
+    deepStrictEqual(x, Err("SyntaxError"));
+  });
+
+  await t.step("preserves this", () => {
+    class Counter {
+      count = 0;
+      increment(by: number): number {
+        if (by < 0) throw new RangeError("cannot decrement");
+        return this.count += by;
+      }
+    }
+    const counter = new Counter();
+    const safeIncrement = resultify(Counter.prototype.increment);
+    assertType<
+      IsExact<typeof safeIncrement, Resultified<Counter["increment"], unknown>>
+    >(true);
+    deepStrictEqual(safeIncrement.call(counter, 2), Ok(2));
+    deepStrictEqual(
+      safeIncrement.call(counter, -1),
+      Err(new RangeError("cannot decrement")),
+    );
+    strictEqual(counter.count, 2);
+  });
+});
+
+Deno.test("results passing through combinators are reused", () => {
+  const x: Result<number, string> = Err("error");
+  strictEqual(x.map((v) => v * 2), x);
+  strictEqual(x.and(Ok(2)), x);
+  strictEqual(x.andThen((v) => Ok(v * 2)), x);
+  const y: Result<number, string> = Ok(2);
+  strictEqual(y.mapErr((e) => e.length), y);
+  strictEqual(y.or(Ok(3)), y);
+  strictEqual(y.orElse((e) => Err(e.length)), y);
+  const z: Result<Result<number, string>, string> = Err("error");
+  strictEqual(z.flatten(), z);
+});
+
+Deno.test("Result.fromPromise", async (t) => {
+  await t.step("maps a fulfilled Promise to Ok", async () => {
+    const x = Result.fromPromise(Promise.resolve(2));
+    assertType<IsExact<typeof x, AsyncResult<number, unknown>>>(true);
+    deepStrictEqual(await x, Ok(2));
+  });
+
+  await t.step("maps a rejected Promise to Err", async () => {
+    const error = new Error("boom");
+    deepStrictEqual(
+      await Result.fromPromise(Promise.reject(error)),
+      Err(error),
+    );
+    const y = Result.fromPromise(
+      Promise.reject(error),
+      (e) => (e as Error).message,
+    );
+    assertType<IsExact<typeof y, AsyncResult<never, string>>>(true);
+    deepStrictEqual(await y, Err("boom"));
+  });
+});
+
+Deno.test("toPromise", async () => {
+  strictEqual(await Ok(2).toPromise(), 2);
+  await Err("emergency failure").toPromise().then(
+    () => Promise.reject(new Error("should reject")),
+    (e) => strictEqual(e, "emergency failure"),
+  );
+});
+
+Deno.test("resultifyAsync", async (t) => {
+  async function fetchText(url: string): Promise<string> {
+    await Promise.resolve();
+    if (url.endsWith("404")) throw `${url} answered with 404`;
+    return "hello";
+  }
+
+  await t.step("resolves to Ok of the resolved value", async () => {
+    const safeFetchText = resultifyAsync(fetchText);
+    const x = safeFetchText("/index");
+    assertType<IsExact<typeof x, AsyncResult<string, unknown>>>(true);
+    deepStrictEqual(await x, Ok("hello"));
+  });
+
+  await t.step("converts rejections to Err", async () => {
+    const safeFetchText = resultifyAsync(fetchText, (e) => String(e));
+    const x = safeFetchText("/404");
+    assertType<IsExact<typeof x, AsyncResult<string, string>>>(true);
+    deepStrictEqual(await x, Err("/404 answered with 404"));
+  });
+
+  await t.step("converts synchronous throws to Err", async () => {
+    const safeThrow = resultifyAsync((): Promise<number> => {
+      throw new RangeError("sync");
+    });
+    deepStrictEqual(await safeThrow(), Err(new RangeError("sync")));
+  });
+
+  await t.step("preserves this", async () => {
+    class Client {
+      base = "https://deno.land";
+      fetch(path: string): Promise<string> {
+        return Promise.resolve(this.base + path);
+      }
+    }
+    const client = new Client();
+    const safeFetch = resultifyAsync(client.fetch);
+    deepStrictEqual(
+      await safeFetch.call(client, "/std"),
+      Ok("https://deno.land/std"),
+    );
+  });
+});
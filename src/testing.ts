@@ -0,0 +1,202 @@
+import { equals } from "./cmp.ts";
+import { debug } from "./debug.ts";
+import { Pattern } from "./match.ts";
+import { Option } from "./option.ts";
+import { Ok, Result } from "./result.ts";
+
+/** The error thrown by failed assertions, named like the one of Deno's
+ * standard library so test runners report it the same way.
+ */
+export class AssertionError extends Error {
+  override name = "AssertionError";
+
+  constructor(message: string) {
+    super(message);
+  }
+}
+
+function fail(expectation: string, msg?: string, details = ""): never {
+  throw new AssertionError(`${expectation}${msg ? `: ${msg}` : "."}${details}`);
+}
+
+function format(value: unknown): string {
+  return debug(value, { depth: Infinity });
+}
+
+/** Asserts that `actual` is a `Some` and returns its value.
+ *
+ * # Examples
+ *
+ * ```ts
+ * Deno.test("find", () => {
+ *    let user = assertSome(users.find(42));
+ *    assertEquals(user.name, "Ferris");
+ * });
+ * ```
+ */
+export function assertSome<T>(actual: Option<T>, msg?: string): T {
+  if (actual.isNone()) fail("Expected actual to be Some, got None", msg);
+  return actual.unwrap();
+}
+
+/** Asserts that `actual` is a `None`.
+ *
+ * # Examples
+ *
+ * ```ts
+ * assertNone(Some(5)); // throws AssertionError: Expected actual to be None, got Some(5).
+ * ```
+ */
+export function assertNone<T>(actual: Option<T>, msg?: string): void {
+  if (actual.isSome()) {
+    fail(`Expected actual to be None, got ${format(actual)}`, msg);
+  }
+}
+
+/** Asserts that `actual` is an `Ok` and returns its value.
+ *
+ * # Examples
+ *
+ * ```ts
+ * assertOk(Err(new Error("boom"))); // throws AssertionError: Expected actual to be Ok, got Err(Error: boom).
+ * ```
+ */
+export function assertOk<T, E>(actual: Result<T, E>, msg?: string): T {
+  if (actual.isErr()) {
+    fail(`Expected actual to be Ok, got ${format(actual)}`, msg);
+  }
+  return actual.unwrap();
+}
+
+/** Asserts that `actual` is an `Err` and returns its error.
+ *
+ * # Examples
+ *
+ * ```ts
+ * let error = assertErr(parse("{"));
+ * console.log(error.message); // Unexpected end of JSON input
+ * ```
+ */
+export function assertErr<T, E>(actual: Result<T, E>, msg?: string): E {
+  if (actual.isOk()) {
+    fail(`Expected actual to be Err, got ${format(actual)}`, msg);
+  }
+  return actual.unwrapErr();
+}
+
+/** Asserts that `actual` is an `Ok` of a value structurally equal to
+ * `expected`, see `equals`, and returns its value.
+ *
+ * Failures show a line diff of the debug representations of `actual` and
+ * `Ok(expected)`.
+ *
+ * # Examples
+ *
+ * ```ts
+ * assertOkEquals(Ok({ a: 1 }), { a: 2 }); // throws AssertionError: Values are not equal.
+ *                                         //
+ *                                         //     [Diff] Actual / Expected
+ *                                         //
+ *                                         // -   Ok({ a: 1 })
+ *                                         // +   Ok({ a: 2 })
+ * ```
+ */
+export function assertOkEquals<T, E>(
+  actual: Result<T, E>,
+  expected: T,
+  msg?: string,
+): T {
+  if (actual.isOk() && equals(actual.unwrap(), expected)) {
+    return actual.unwrap();
+  }
+  const lines = diff(format(actual), format(Ok(expected)));
+  return fail(
+    "Values are not equal",
+    msg,
+    `\n\n    [Diff] Actual / Expected\n\n${lines}\n`,
+  );
+}
+
+/** Asserts that `actual` is an `Err` whose error matches `expected` and
+ * returns what it extracts.
+ *
+ * `expected` is either a `Pattern`, or a `RegExp` tested against the
+ * message of `Error`s, strings themselves and the debug representation of
+ * other values.
+ *
+ * # Examples
+ *
+ * ```ts
+ * let result = Err(new RangeError("index out of bounds"));
+ * assertErrMatches(result, /out of bounds/);
+ * let error = assertErrMatches(
+ *    result,
+ *    Pattern.when((e: Error) => e instanceof RangeError),
+ * );
+ * ```
+ */
+export function assertErrMatches<T, E, U>(
+  actual: Result<T, E>,
+  expected: Pattern<E, U>,
+  msg?: string,
+): U;
+export function assertErrMatches<T, E>(
+  actual: Result<T, E>,
+  expected: RegExp,
+  msg?: string,
+): E;
+export function assertErrMatches<T, E, U>(
+  actual: Result<T, E>,
+  expected: Pattern<E, U> | RegExp,
+  msg?: string,
+): U | E {
+  const error = assertErr(actual, msg);
+  if (expected instanceof RegExp) {
+    if (!expected.test(describe(error))) {
+      fail(`Expected error ${format(error)} to match ${expected}`, msg);
+    }
+    return error;
+  }
+  return expected.test(error).unwrapOrElse(() =>
+    fail(`Expected error ${format(error)} to match the pattern`, msg)
+  );
+}
+
+function describe(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  if (typeof error == "string") return error;
+  return format(error);
+}
+
+function diff(actual: string, expected: string): string {
+  const a = actual.split("\n");
+  const b = expected.split("\n");
+  // Lengths of the longest common subsequences of the suffixes of a and b.
+  const lcs = Array.from(
+    { length: a.length + 1 },
+    () => new Array<number>(b.length + 1).fill(0),
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] == b[j]
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+  const lines = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] == b[j]) {
+      lines.push(`    ${a[i++]}`);
+      j++;
+    } else if (
+      j == b.length || (i < a.length && lcs[i + 1][j] >= lcs[i][j + 1])
+    ) {
+      lines.push(`-   ${a[i++]}`);
+    } else {
+      lines.push(`+   ${b[j++]}`);
+    }
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,138 @@
+import { deepStrictEqual, strictEqual, throws } from "node:assert/strict";
+import { Pattern } from "./match.ts";
+import { None, Some } from "./option.ts";
+import { Err, Ok } from "./result.ts";
+import {
+  assertErr,
+  assertErrMatches,
+  AssertionError,
+  assertNone,
+  assertOk,
+  assertOkEquals,
+  assertSome,
+} from "./testing.ts";
+
+function assertFails(f: () => unknown, message: string) {
+  throws(f, (error) => {
+    strictEqual(error instanceof AssertionError, true);
+    strictEqual((error as AssertionError).name, "AssertionError");
+    strictEqual((error as AssertionError).message, message);
+    return true;
+  });
+}
+
+Deno.test("assertSome", () => {
+  strictEqual(assertSome(Some(null)), null);
+  assertFails(
+    () => assertSome(None()),
+    "Expected actual to be Some, got None.",
+  );
+  assertFails(
+    () => assertSome(None(), "user 42"),
+    "Expected actual to be Some, got None: user 42",
+  );
+});
+
+Deno.test("assertNone", () => {
+  assertNone(None());
+  assertFails(
+    () => assertNone(Some({ id: 5 })),
+    "Expected actual to be None, got Some({ id: 5 }).",
+  );
+});
+
+Deno.test("assertOk", () => {
+  deepStrictEqual(assertOk(Ok([1])), [1]);
+  assertFails(
+    () => assertOk(Err(new Error("boom")), "parsing"),
+    "Expected actual to be Ok, got Err(Error: boom): parsing",
+  );
+});
+
+Deno.test("assertErr", () => {
+  strictEqual(assertErr(Err("boom")), "boom");
+  assertFails(
+    () => assertErr(Ok("a")),
+    'Expected actual to be Err, got Ok("a").',
+  );
+});
+
+Deno.test("assertOkEquals", async (t) => {
+  await t.step("compares structurally", () => {
+    deepStrictEqual(assertOkEquals(Ok({ a: [1] }), { a: [1] }), { a: [1] });
+  });
+
+  await t.step("shows a line diff", () => {
+    assertFails(
+      () => assertOkEquals(Ok({ a: 1 }), { a: 2 }),
+      "Values are not equal.\n\n" +
+        "    [Diff] Actual / Expected\n\n" +
+        "-   Ok({ a: 1 })\n" +
+        "+   Ok({ a: 2 })\n",
+    );
+  });
+
+  await t.step("keeps the common lines of long values", () => {
+    const actual = {
+      name: "a long enough name",
+      tags: ["first tag"],
+      description: "a description",
+    };
+    const expected = { ...actual, tags: ["second tag"] };
+    assertFails(
+      () => assertOkEquals(Ok(actual), expected, "config"),
+      "Values are not equal: config\n\n" +
+        "    [Diff] Actual / Expected\n\n" +
+        "    Ok({\n" +
+        '      name: "a long enough name",\n' +
+        '-     tags: [ "first tag" ],\n' +
+        '+     tags: [ "second tag" ],\n' +
+        '      description: "a description",\n' +
+        "    })\n",
+    );
+  });
+
+  await t.step("diffs an Err with the expected Ok", () => {
+    assertFails(
+      () => assertOkEquals(Err("boom"), 1),
+      "Values are not equal.\n\n" +
+        "    [Diff] Actual / Expected\n\n" +
+        '-   Err("boom")\n' +
+        "+   Ok(1)\n",
+    );
+  });
+});
+
+Deno.test("assertErrMatches", async (t) => {
+  await t.step("tests regular expressions", () => {
+    const error = new RangeError("index out of bounds");
+    strictEqual(assertErrMatches(Err(error), /out of bounds/), error);
+    strictEqual(assertErrMatches(Err("not found"), /^not/), "not found");
+    deepStrictEqual(assertErrMatches(Err({ code: 404 }), /404/), { code: 404 });
+    assertFails(
+      () => assertErrMatches(Err(error), /too long/),
+      "Expected error RangeError: index out of bounds to match /too long/.",
+    );
+  });
+
+  await t.step("tests patterns", () => {
+    const result = Err<number, Error>(new RangeError("index out of bounds"));
+    const isRangeError = Pattern.when((e: Error) => e instanceof RangeError);
+    const isTypeError = Pattern.when((e: Error) => e instanceof TypeError);
+    strictEqual(
+      assertErrMatches(result, isRangeError.when((e) => e.message != "")),
+      result.unwrapErr(),
+    );
+    assertFails(
+      () => assertErrMatches(result, isTypeError, "kind"),
+      "Expected error RangeError: index out of bounds to match the pattern: kind",
+    );
+  });
+
+  await t.step("fails on an Ok", () => {
+    assertFails(
+      () => assertErrMatches(Ok(1), /error/),
+      "Expected actual to be Err, got Ok(1).",
+    );
+  });
+});
@@ -0,0 +1,323 @@
+import { Debug, debug, denoCustomInspect, nodeCustomInspect } from "./debug.ts";
+import { Err, Ok, Result } from "./result.ts";
+
+enum ValidationTag {
+  Valid,
+  Invalid,
+}
+
+interface ValidationValid<T> {
+  tag: ValidationTag.Valid;
+  value: T;
+}
+
+interface ValidationInvalid<E> {
+  tag: ValidationTag.Invalid;
+  errors: E[];
+}
+
+// Type-only brand of validations, see `AnyValidation`.
+declare const brand: unique symbol;
+
+// Any validation, whatever its types. Constraining a type parameter with
+// `Validation<unknown, unknown>` instead would make `Validation.Valid(1)`
+// infer `unknown` for its error type from the constraint.
+type AnyValidation = Pick<Validation<unknown, unknown>, typeof brand>;
+
+type ValidType<V> = V extends Validation<infer T, unknown> ? T : never;
+type InvalidType<V> = V extends Validation<unknown, infer E> ? E : never;
+
+/** Error accumulating validation with the `Validation` type.
+ *
+ * `Validation<T, E>` is either `Valid`, containing a value, or `Invalid`,
+ * containing every error that was found. Unlike `Result`, whose `and` and
+ * `andThen` stop at the first `Err`, combining validations with `zip`,
+ * `zipWith` or `Validation.all` keeps the errors of all of them, which is
+ * what form and config validation need.
+ *
+ * ```ts
+ * function validateName(name: string): Validation<string, string> {
+ *    if (name.length == 0) return Validation.Invalid("name is empty");
+ *    return Validation.Valid(name);
+ * }
+ * function validateAge(age: number): Validation<number, string> {
+ *    if (age < 0) return Validation.Invalid("age is negative");
+ *    return Validation.Valid(age);
+ * }
+ *
+ * let user = validateName("").zipWith(
+ *    validateAge(-1),
+ *    (name, age) => ({ name, age }),
+ * );
+ * console.log(user.toResult().unwrapErr()); // [ "name is empty", "age is negative" ]
+ * ```
+ */
+export class Validation<T, E> {
+  declare readonly [brand]: never;
+
+  protected constructor(
+    private validation: ValidationValid<T> | ValidationInvalid<E>,
+  ) {}
+
+  /** Contains the validated value
+   *
+   * The error type is `never` unless the context gives it, like `Ok`.
+   */
+  static Valid<T, E = never>(value: T): Validation<T, E> {
+    return new Validation({ tag: ValidationTag.Valid, value });
+  }
+
+  /** Contains the errors, there must be at least one
+   *
+   * The value type is `never` unless the context gives it, like `Err`.
+   */
+  static Invalid<T = never, E = never>(
+    error: E,
+    ...errors: E[]
+  ): Validation<T, E> {
+    return new Validation({
+      tag: ValidationTag.Invalid,
+      errors: [error, ...errors],
+    });
+  }
+
+  /** Converts a `Result<T, E>` into a `Validation<T, E>`, `Ok(v)` being
+   * `Valid(v)` and `Err(e)` being `Invalid(e)`.
+   *
+   * # Examples
+   *
+   * ```ts
+   * console.log(Validation.fromResult(Ok(2)).isValid()); // true
+   * console.log(Validation.fromResult(Err("error")).isInvalid()); // true
+   * ```
+   */
+  static fromResult<T, E>(result: Result<T, E>): Validation<T, E> {
+    return result.mapOrElse(
+      (err) => Validation.Invalid<T, E>(err),
+      (value) => Validation.Valid<T, E>(value),
+    );
+  }
+
+  /** Collects an iterable of validations into a validation of an array,
+   * `Valid` of all the values if every validation is `Valid`, `Invalid` of
+   * the errors of every `Invalid` one otherwise.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let x = Validation.collect([Validation.Valid(1), Validation.Valid(2)]);
+   * console.log(x.toResult().unwrap()); // [ 1, 2 ]
+   *
+   * let y = Validation.collect([
+   *    Validation.Invalid("first"),
+   *    Validation.Valid(2),
+   *    Validation.Invalid("second"),
+   * ]);
+   * console.log(y.toResult().unwrapErr()); // [ "first", "second" ]
+   * ```
+   */
+  static collect<T, E>(
+    validations: Iterable<Validation<T, E>>,
+  ): Validation<T[], E> {
+    const values: T[] = [];
+    const errors: E[] = [];
+    for (const { validation } of validations) {
+      if (validation.tag == ValidationTag.Valid) values.push(validation.value);
+      else errors.push(...validation.errors);
+    }
+    if (errors.length) {
+      return new Validation({ tag: ValidationTag.Invalid, errors });
+    }
+    return Validation.Valid(values);
+  }
+
+  /** Combines a tuple, array or object of validations into a validation of
+   * the same shape, `Valid` if every validation is `Valid`, `Invalid` of all
+   * the errors otherwise.
+   *
+   * The type of each element or field is kept, the error type is the union
+   * of the error types.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let form = Validation.all({
+   *    name: validateName(""),
+   *    age: validateAge(-1),
+   * }); // Validation<{ name: string; age: number }, string>
+   * console.log(form.toResult().unwrapErr()); // [ "name is empty", "age is negative" ]
+   * ```
+   */
+  static all<V extends readonly AnyValidation[] | []>(
+    validations: V,
+  ): Validation<
+    { -readonly [K in keyof V]: ValidType<V[K]> },
+    InvalidType<V[number]>
+  >;
+  static all<V extends Record<string, AnyValidation>>(
+    validations: V,
+  ): Validation<{ [K in keyof V]: ValidType<V[K]> }, InvalidType<V[keyof V]>>;
+  static all(
+    validations:
+      | readonly Validation<unknown, unknown>[]
+      | Record<string, Validation<unknown, unknown>>,
+  ): Validation<unknown, unknown> {
+    if (Array.isArray(validations)) return Validation.collect(validations);
+    const entries = Object.entries(validations).map(([key, validation]) =>
+      validation.map((value) => [key, value] as const)
+    );
+    return Validation.collect(entries).map(Object.fromEntries);
+  }
+
+  /** Returns `true` if the validation is `Valid`. */
+  isValid(this: Validation<T, E>): boolean {
+    return this.validation.tag == ValidationTag.Valid;
+  }
+
+  /** Returns `true` if the validation is `Invalid`. */
+  isInvalid(this: Validation<T, E>): boolean {
+    return !this.isValid();
+  }
+
+  /** Maps a `Validation<T, E>` to `Validation<U, E>` by applying a function
+   * to a contained `Valid` value, leaving an `Invalid` value untouched.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let x: Validation<string, string> = Validation.Valid("foo");
+   * console.log(x.map((s) => s.length).toResult().unwrap()); // 3
+   * ```
+   */
+  map<U>(this: Validation<T, E>, f: (arg: T) => U): Validation<U, E> {
+    if (this.validation.tag == ValidationTag.Invalid) {
+      return new Validation(this.validation);
+    }
+    return Validation.Valid(f(this.validation.value));
+  }
+
+  /** Maps a `Validation<T, E>` to `Validation<T, F>` by applying a function
+   * to each contained error, leaving a `Valid` value untouched.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let x: Validation<number, number> = Validation.Invalid(404, 500);
+   * console.log(x.mapErr((code) => `error code: ${code}`).toResult().unwrapErr()); // [ "error code: 404", "error code: 500" ]
+   * ```
+   */
+  mapErr<F>(this: Validation<T, E>, f: (arg: E) => F): Validation<T, F> {
+    if (this.validation.tag == ValidationTag.Valid) {
+      return new Validation(this.validation);
+    }
+    return new Validation({
+      tag: ValidationTag.Invalid,
+      errors: this.validation.errors.map(f),
+    });
+  }
+
+  /** Zips `self` with another `Validation`.
+   *
+   * If both are `Valid`, this method returns `Valid([s, o])`, otherwise it
+   * returns an `Invalid` with the errors of both.
+   *
+   * # Examples
+   *
+   * ```ts
+   * let x = Validation.Valid(1);
+   * let y = Validation.Valid("hi");
+   * let z = Validation.Invalid("bad");
+   *
+   * console.log(x.zip(y).toResult().unwrap()); // [ 1, "hi" ]
+   * console.log(z.zip(Validation.Invalid("worse")).toResult().unwrapErr()); // [ "bad", "worse" ]
+   * ```
+   */
+  zip<U, F>(
+    this: Validation<T, E>,
+    other: Validation<U, F>,
+  ): Validation<[T, U], E | F> {
+    return this.zipWith(other, (lhs, rhs) => [lhs, rhs]);
+  }
+
+  /** Zips `self` and another `Validation` with function `f`.
+   *
+   * If both are `Valid`, this method returns `Valid(f(s, o))`, otherwise it
+   * returns an `Invalid` with the errors of both.
+   *
+   * # Examples
+   *
+   * ```ts
+   * class Point {
+   *    constructor(public x: number, public y: number) {}
+   * }
+   *
+   * let x = Validation.Valid(17.5);
+   * let y = Validation.Valid(42.7);
+   *
+   * console.log(x.zipWith(y, (x, y) => new Point(x, y)).toResult().unwrap()); // Point { x: 17.5, y: 42.7 }
+   * ```
+   */
+  zipWith<U, F, R>(
+    this: Validation<T, E>,
+    other: Validation<U, F>,
+    f: (lhs: T, rhs: U) => R,
+  ): Validation<R, E | F> {
+    if (
+      this.validation.tag == ValidationTag.Valid &&
+      other.validation.tag == ValidationTag.Valid
+    ) {
+      return Validation.Valid(f(this.validation.value, other.validation.value));
+    }
+    const errors: (E | F)[] = [];
+    if (this.validation.tag == ValidationTag.Invalid) {
+      errors.push(...this.validation.errors);
+    }
+    if (other.validation.tag == ValidationTag.Invalid) {
+      errors.push(...other.validation.errors);
+    }
+    return new Validation({ tag: ValidationTag.Invalid, errors });
+  }
+
+  /** Converts from `Validation<T, E>` to `Result<T, E[]>`, `Valid(v)` being
+   * `Ok(v)` and `Invalid` being `Err` of all the errors.
+   */
+  toResult(this: Validation<T, E>): Result<T, E[]> {
+    if (this.validation.tag == ValidationTag.Invalid) {
+      return Err(this.validation.errors);
+    }
+    return Ok(this.validation.value);
+  }
+
+  [Debug](
+    this: Validation<T, E>,
+    format: (value: unknown) => string,
+  ): string {
+    if (this.validation.tag == ValidationTag.Valid) {
+      return `Valid(${format(this.validation.value)})`;
+    }
+    return `Invalid(${this.validation.errors.map(format).join(", ")})`;
+  }
+
+  [denoCustomInspect](this: Validation<T, E>): string {
+    return debug(this);
+  }
+
+  [nodeCustomInspect](this: Validation<T, E>): string {
+    return debug(this);
+  }
+
+  /** Returns the debug representation of the validation, see `debug`.
+   *
+   * # Examples
+   *
+   * ```ts
+   * console.log(`${Validation.Valid({ a: 1 })}`); // Valid({ a: 1 })
+   * console.log(`${Validation.Invalid("bad", "worse")}`); // Invalid("bad", "worse")
+   * ```
+   */
+  toString(this: Validation<T, E>): string {
+    return debug(this);
+  }
+}
+
+export const { Valid, Invalid } = Validation;
@@ -0,0 +1,101 @@
+import { deepStrictEqual, strictEqual } from "node:assert/strict";
+import { assertType, IsExact } from "./_test_util.ts";
+import { debug } from "./debug.ts";
+import { Err, Ok } from "./result.ts";
+import { Validation } from "./validation.ts";
+
+function validateName(name: string): Validation<string, string> {
+  if (name.length == 0) return Validation.Invalid("name is empty");
+  return Validation.Valid(name);
+}
+
+function validateAge(age: number): Validation<number, RangeError> {
+  if (age < 0) return Validation.Invalid(new RangeError("age is negative"));
+  return Validation.Valid(age);
+}
+
+Deno.test("Validation.all", async (t) => {
+  await t.step("keeps the types of mixed tuples", () => {
+    const x = Validation.all([validateName("Ferris"), validateAge(7)]);
+    assertType<
+      IsExact<typeof x, Validation<[string, number], string | RangeError>>
+    >(true);
+    deepStrictEqual(x.toResult().unwrap(), ["Ferris", 7]);
+  });
+
+  await t.step("infers never for bare Valid and Invalid", () => {
+    const x = Validation.all([
+      validateName("Ferris"),
+      Validation.Valid(7),
+      Validation.Invalid(new RangeError("out of range")),
+    ]);
+    assertType<
+      IsExact<
+        typeof x,
+        Validation<[string, number, never], string | RangeError>
+      >
+    >(true);
+    deepStrictEqual(x.toResult().unwrapErr(), [new RangeError("out of range")]);
+  });
+
+  await t.step("accumulates every error", () => {
+    const x = Validation.all({ name: validateName(""), age: validateAge(-1) });
+    assertType<
+      IsExact<
+        typeof x,
+        Validation<{ name: string; age: number }, string | RangeError>
+      >
+    >(true);
+    deepStrictEqual(x.toResult().unwrapErr(), [
+      "name is empty",
+      new RangeError("age is negative"),
+    ]);
+  });
+});
+
+Deno.test("Validation debug formatting", () => {
+  const valid = Validation.Valid({ name: "Ferris", tags: ["crab"] });
+  const invalid = Validation.Invalid<never, unknown>("bad", new Error("worse"));
+  strictEqual(debug(valid), 'Valid({ name: "Ferris", tags: [ "crab" ] })');
+  strictEqual(debug(invalid), 'Invalid("bad", Error: worse)');
+  strictEqual(`${valid}`, debug(valid));
+  strictEqual(Deno.inspect(invalid), debug(invalid));
+  strictEqual(
+    debug(Validation.Valid({ a: { b: 1 } }), { depth: 0 }),
+    "Valid({ a: [Object] })",
+  );
+});
+
+Deno.test("Validation.collect", () => {
+  deepStrictEqual(
+    Validation.collect([validateAge(1), validateAge(2)]).toResult(),
+    Ok([1, 2]),
+  );
+  deepStrictEqual(
+    Validation.collect([validateAge(-1), validateAge(1), validateAge(-2)])
+      .toResult(),
+    Err([new RangeError("age is negative"), new RangeError("age is negative")]),
+  );
+});
+
+Deno.test("Validation.fromResult", () => {
+  strictEqual(Validation.fromResult(Ok(1)).isValid(), true);
+  deepStrictEqual(Validation.fromResult(Err("x")).toResult(), Err(["x"]));
+});
+
+Deno.test("map, mapErr and zip", () => {
+  deepStrictEqual(validateName("a").map((s) => s.length).toResult(), Ok(1));
+  deepStrictEqual(
+    validateName("").mapErr((e) => e.toUpperCase()).toResult(),
+    Err(["NAME IS EMPTY"]),
+  );
+  deepStrictEqual(
+    validateName("").zip(validateName("")).toResult(),
+    Err(["name is empty", "name is empty"]),
+  );
+  deepStrictEqual(
+    validateName("a").zip(validateName("b")).toResult(),
+    Ok(["a", "b"]),
+  );
+  strictEqual(validateAge(-1).isInvalid(), true);
+});
@@ -0,0 +1,25 @@
+/** Assertions on `Option`s and `Result`s for `Deno.test`, following the
+ * conventions of Deno's standard `assert` module: they throw an
+ * `AssertionError` on failure, take an optional message last, and return
+ * the unwrapped value on success.
+ *
+ * ```ts
+ * import { assertErrMatches, assertOkEquals } from "./testing.ts";
+ *
+ * Deno.test("parse", () => {
+ *    assertOkEquals(parse("[1, 2]"), [1, 2]);
+ *    assertErrMatches(parse("{"), /Unexpected end/);
+ * });
+ * ```
+ *
+ * @module
+ */
+export {
+  assertErr,
+  assertErrMatches,
+  AssertionError,
+  assertNone,
+  assertOk,
+  assertOkEquals,
+  assertSome,
+} from "./src/testing.ts";